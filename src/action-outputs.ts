@@ -0,0 +1,113 @@
+import * as core from '@actions/core';
+import { BackupPlan } from './backup-plan';
+import { RunReport, RunReportBackup, describeReportSource } from './run-report';
+
+/**
+ * Set the GitHub Action outputs declared in action.yml and write the job summary
+ */
+export async function publishActionOutputs(report: RunReport, reportPath?: string): Promise<void> {
+  const failedResources = report.backups
+    .filter(backup => !backup.success || (backup.upload && !backup.upload.success))
+    .map(describeReportSource);
+
+  core.setOutput('status', report.status);
+  core.setOutput('backup_count', report.totals.successfulBackups);
+  core.setOutput('upload_count', report.totals.successfulUploads);
+  core.setOutput('failed_count', failedResources.length);
+  core.setOutput('failed_resources', JSON.stringify(failedResources));
+  core.setOutput('skipped_count', report.totals.skipped);
+  core.setOutput('total_backup_size', report.totals.backupSizeBytes);
+  core.setOutput('report_path', reportPath || '');
+
+  // Only available inside a workflow step
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    return;
+  }
+
+  const rows = report.backups.map(backup => [
+    describeReportSource(backup),
+    describeStatus(backup),
+    backup.success ? formatFileSize(backup.sizeBytes || 0) : '-',
+    backup.upload?.webViewLink?.startsWith('http')
+      ? `[${backup.fileName}](${backup.upload.webViewLink})`
+      : backup.fileName || escapeCell(backup.error || '-')
+  ]);
+
+  await core.summary
+    .addHeading(`Neon backup: ${report.status}`, 2)
+    .addRaw(
+      `${report.totals.successfulBackups} backups, ${report.totals.successfulUploads} uploaded to ${report.storage}, ` +
+      `${formatFileSize(report.totals.backupSizeBytes)} total, ${report.totals.skipped} skipped, ` +
+      `${report.totals.deletedFiles} old files deleted`,
+      true
+    )
+    .addEOL()
+    .addRaw(markdownTable(['Database', 'Status', 'Size', 'File'], rows), true)
+    .addRaw(report.error ? `\n**Error:** ${escapeCell(report.error)}\n` : '')
+    .write();
+}
+
+/**
+ * Set the action outputs of a dry run and write the planned backups to the job summary
+ */
+export async function publishPlanOutputs(plan: BackupPlan, planPath?: string): Promise<void> {
+  core.setOutput('status', 'dry-run');
+  core.setOutput('planned_count', plan.totals.backups);
+  core.setOutput('skipped_count', plan.totals.skipped);
+  core.setOutput('deletion_count', plan.totals.localDeletions + plan.totals.storageDeletions);
+  core.setOutput('plan_path', planPath || '');
+
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    return;
+  }
+
+  const rows = plan.backups.map(backup => [
+    `${backup.projectName}/${backup.branchName}/${backup.databaseName}`,
+    backup.reason || '-',
+    backup.folder ? `${backup.folder}/${backup.fileName}` : backup.fileName
+  ]);
+
+  await core.summary
+    .addHeading('Neon backup: dry run', 2)
+    .addRaw(
+      `${plan.totals.backups} backups planned for ${plan.storage}, ${plan.totals.skipped} skipped, ` +
+      `${plan.totals.storageDeletions} stored and ${plan.totals.localDeletions} local files would be deleted`,
+      true
+    )
+    .addEOL()
+    .addRaw(markdownTable(['Database', 'Reason', 'File'], rows), true)
+    .write();
+}
+
+function describeStatus(backup: RunReportBackup): string {
+  if (!backup.success) {
+    return '❌ backup failed';
+  }
+  if (backup.upload && !backup.upload.success) {
+    return '❌ upload failed';
+  }
+  if (backup.verified === false) {
+    return '⚠️ verification failed';
+  }
+  return backup.verified ? '✅ verified' : '✅';
+}
+
+function markdownTable(header: string[], rows: string[][]): string {
+  const lines = [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`)
+  ];
+  return lines.join('\n');
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function formatFileSize(bytes: number): string {
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  if (bytes === 0) return '0 Bytes';
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+}
@@ -0,0 +1,66 @@
+export type ActivityWindow =
+  | { mode: 'duration'; hours: number } // Active if updated within the last N hours
+  | { mode: 'since-last-backup' }; // Active if updated after the newest backup in storage
+
+const DURATION_UNITS_IN_HOURS: Record<string, number> = {
+  m: 1 / 60,
+  h: 1,
+  d: 24,
+  w: 24 * 7
+};
+
+/**
+ * Parse a duration such as '23h', '7d', '90m' or '1d12h' into hours; a bare number is taken as hours
+ */
+export function parseDurationHours(value: string): number {
+  const trimmed = value.trim().toLowerCase();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+
+  const pattern = /(\d+(?:\.\d+)?)\s*([mhdw])/g;
+  let hours = 0;
+  let consumed = '';
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(trimmed)) !== null) {
+    hours += parseFloat(match[1]) * DURATION_UNITS_IN_HOURS[match[2]];
+    consumed += match[0];
+  }
+
+  if (!consumed || consumed.replace(/\s/g, '') !== trimmed.replace(/\s/g, '')) {
+    throw new Error(`Invalid duration '${value}'. Use a number of hours or a string such as '23h', '7d' or '1d12h'`);
+  }
+
+  return hours;
+}
+
+/**
+ * Parse the ACTIVITY_WINDOW setting: a duration or 'since-last-backup'
+ */
+export function parseActivityWindow(value: string): ActivityWindow {
+  if (value.trim().toLowerCase() === 'since-last-backup') {
+    return { mode: 'since-last-backup' };
+  }
+
+  const hours = parseDurationHours(value);
+  if (hours <= 0) {
+    throw new Error(`Activity window must be positive, got '${value}'`);
+  }
+
+  return { mode: 'duration', hours };
+}
+
+/**
+ * Human-readable description used in logs
+ */
+export function describeActivityWindow(window: ActivityWindow): string {
+  if (window.mode === 'since-last-backup') {
+    return 'since the last successful backup';
+  }
+
+  return window.hours % 24 === 0
+    ? `within the last ${window.hours / 24} days`
+    : `within the last ${window.hours} hours`;
+}
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BackupCatalog, BackupCatalogService, CATALOG_FILE_NAME, appendCatalogEntries } from './backup-catalog';
+import { BackupResult, computeFileHashes } from './backup-service';
+import { LocalStorageService } from './local-storage-service';
+import { UploadResult } from './storage-provider';
+
+describe('BackupCatalogService', () => {
+  let workDir: string;
+  let storage: LocalStorageService;
+  let catalogService: BackupCatalogService;
+
+  /**
+   * Upload a backup with `content` to the local storage, as a backup run would
+   */
+  async function uploadBackup(fileName: string, content: string): Promise<{ backup: BackupResult; upload: UploadResult }> {
+    const filePath = join(workDir, 'dumps', fileName);
+    await fs.mkdir(join(workDir, 'dumps'), { recursive: true });
+    await fs.writeFile(filePath, content);
+    const hashes = await computeFileHashes(filePath);
+    const backup: BackupResult = {
+      success: true,
+      projectName: 'shop',
+      branchName: 'main',
+      databaseName: 'orders',
+      fileName,
+      fileSize: content.length,
+      checksum: hashes.sha256,
+      md5Checksum: hashes.md5
+    };
+    return { backup, upload: await storage.uploadBackup(filePath, fileName) };
+  }
+
+  async function readCatalog(): Promise<BackupCatalog> {
+    return JSON.parse(await fs.readFile(join(workDir, 'storage', CATALOG_FILE_NAME), 'utf8'));
+  }
+
+  async function writeCatalog(catalog: BackupCatalog): Promise<void> {
+    await fs.writeFile(join(workDir, 'storage', CATALOG_FILE_NAME), JSON.stringify(catalog, null, 2));
+  }
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    workDir = await fs.mkdtemp(join(tmpdir(), 'backup-catalog-'));
+    storage = new LocalStorageService({ directory: join(workDir, 'storage') });
+    await storage.initialize();
+    catalogService = new BackupCatalogService(storage, join(workDir, 'catalog'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Two runs: the first adds two backups, the second adds one and deletes the oldest
+   */
+  async function recordTwoRuns(): Promise<string | undefined> {
+    const first = await uploadBackup('shop_main_orders_2024-05-01_02-00-00.sql.gz', 'first');
+    const second = await uploadBackup('shop_main_orders_2024-05-02_02-00-00.sql.gz', 'second');
+    await catalogService.record([first, second], []);
+
+    const third = await uploadBackup('shop_main_orders_2024-05-03_02-00-00.sql.gz', 'third');
+    const [oldest] = (await storage.listBackupFiles()).filter(file => file.name === first.backup.fileName);
+    await storage.deleteBackup(oldest.id);
+    return catalogService.record([third], [oldest]);
+  }
+
+  it('appends the entries of each run to the chain', async () => {
+    const head = await recordTwoRuns();
+
+    const catalog = await readCatalog();
+    expect(catalog.entries.map(entry => [entry.sequence, entry.action, entry.fileName])).toEqual([
+      [1, 'added', 'shop_main_orders_2024-05-01_02-00-00.sql.gz'],
+      [2, 'added', 'shop_main_orders_2024-05-02_02-00-00.sql.gz'],
+      [3, 'added', 'shop_main_orders_2024-05-03_02-00-00.sql.gz'],
+      [4, 'deleted', 'shop_main_orders_2024-05-01_02-00-00.sql.gz']
+    ]);
+    expect(catalog.entries[0].previousHash).toBe('');
+    catalog.entries.slice(1).forEach((entry, index) => expect(entry.previousHash).toBe(catalog.entries[index].hash));
+    expect(head).toBe(catalog.entries[3].hash);
+  });
+
+  it('verifies an intact chain against the files in storage', async () => {
+    const head = await recordTwoRuns();
+
+    const verification = await catalogService.verify({ download: true, expectedHead: head });
+
+    expect(verification).toEqual({ checkedFiles: 2, verifiedFiles: 2, headHash: head, issues: [] });
+  });
+
+  it('detects an entry that was edited after it was recorded', async () => {
+    await recordTwoRuns();
+    const catalog = await readCatalog();
+    catalog.entries[1].branchName = 'release';
+    await writeCatalog(catalog);
+
+    const { issues } = await catalogService.verify();
+
+    expect(issues).toEqual([{
+      kind: 'tampered',
+      fileName: CATALOG_FILE_NAME,
+      detail: 'entry 2 (shop_main_orders_2024-05-02_02-00-00.sql.gz) was modified after it was recorded'
+    }]);
+  });
+
+  it('detects a removed entry', async () => {
+    await recordTwoRuns();
+    const catalog = await readCatalog();
+    catalog.entries.splice(3, 1);
+    catalog.entries.splice(1, 1);
+    await writeCatalog(catalog);
+
+    const { issues } = await catalogService.verify();
+
+    expect(issues.filter(issue => issue.kind === 'tampered').map(issue => issue.detail)).toEqual([
+      'entry 2 has sequence number 3',
+      'entry 3 (shop_main_orders_2024-05-03_02-00-00.sql.gz) does not link to the entry before it'
+    ]);
+    expect(issues.filter(issue => issue.kind === 'unexpected').map(issue => issue.fileName))
+      .toEqual(['shop_main_orders_2024-05-02_02-00-00.sql.gz']);
+  });
+
+  it('detects a chain rewritten from scratch through the published head hash', async () => {
+    const head = await recordTwoRuns();
+    const catalog = await readCatalog();
+    const rewritten: BackupCatalog = { schemaVersion: catalog.schemaVersion, entries: [] };
+    appendCatalogEntries(rewritten, catalog.entries
+      .filter(entry => entry.sequence !== 1 && entry.sequence !== 4)
+      .map(({ sequence, previousHash, hash, ...fields }) => fields));
+    await writeCatalog(rewritten);
+
+    const { issues } = await catalogService.verify({ expectedHead: head });
+
+    expect(issues).toEqual([{
+      kind: 'tampered',
+      fileName: CATALOG_FILE_NAME,
+      detail: `head ${head} is no longer part of the catalog, it has been rewritten`
+    }]);
+  });
+
+  it('reports cataloged files that are missing or were changed in storage', async () => {
+    await recordTwoRuns();
+    await fs.rm(join(workDir, 'storage', 'shop_main_orders_2024-05-02_02-00-00.sql.gz'));
+    await fs.writeFile(join(workDir, 'storage', 'shop_main_orders_2024-05-03_02-00-00.sql.gz'), 'THIRD');
+
+    const { issues, verifiedFiles } = await catalogService.verify({ download: true });
+
+    expect(verifiedFiles).toBe(0);
+    expect(issues.map(issue => [issue.kind, issue.fileName])).toEqual([
+      ['missing', 'shop_main_orders_2024-05-02_02-00-00.sql.gz'],
+      ['corrupted', 'shop_main_orders_2024-05-03_02-00-00.sql.gz']
+    ]);
+    expect(issues[1].detail).toMatch(/^SHA-256 is [0-9a-f]{64}, catalog says [0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,330 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { BackupResult, computeFileHashes } from './backup-service';
+import { RUN_REPORT_PREFIX } from './run-report';
+import { StorageProvider, StoredBackupFile, UploadResult } from './storage-provider';
+
+/**
+ * Bumped whenever a field is renamed or removed; new optional fields keep the version
+ */
+export const CATALOG_SCHEMA_VERSION = 1;
+
+export const CATALOG_FILE_NAME = 'neon-backup-catalog.json';
+
+export type CatalogAction = 'added' | 'deleted';
+
+/**
+ * One event in the catalog. Entries are only ever appended; each one hashes its predecessor,
+ * so editing or removing an entry breaks every hash after it.
+ */
+export interface CatalogEntry {
+  sequence: number;
+  action: CatalogAction;
+  recordedAt: string; // ISO 8601
+  fileId: string;
+  fileName: string;
+  folder?: string;
+  sizeBytes?: number;
+  sha256?: string;
+  md5?: string;
+  projectName?: string;
+  branchName?: string;
+  databaseName?: string;
+  previousHash: string; // Hash of the previous entry, empty for the first
+  hash: string; // SHA-256 over previousHash and every other field
+}
+
+/**
+ * Append-only record of the backups in storage, kept as "neon-backup-catalog.json" in the backup folder
+ */
+export interface BackupCatalog {
+  schemaVersion: number;
+  entries: CatalogEntry[];
+}
+
+export type CatalogIssueKind = 'missing' | 'corrupted' | 'unexpected' | 'tampered';
+
+export interface CatalogIssue {
+  kind: CatalogIssueKind;
+  fileName: string;
+  fileId?: string;
+  detail: string;
+}
+
+export interface CatalogVerification {
+  checkedFiles: number;
+  verifiedFiles: number;
+  headHash?: string;
+  issues: CatalogIssue[];
+}
+
+export interface CatalogVerifyOptions {
+  download?: boolean; // Re-download every file and compare its SHA-256, even where the backend reports an MD5
+  expectedHead?: string; // A head hash published earlier (run report, job log) that must still be in the chain
+}
+
+type CatalogEntryFields = Omit<CatalogEntry, 'sequence' | 'previousHash' | 'hash'>;
+
+/**
+ * Hash of an entry, over its predecessor's hash and its own fields in a fixed order
+ */
+export function hashCatalogEntry(entry: Omit<CatalogEntry, 'hash'>): string {
+  const fields = [
+    entry.previousHash, entry.sequence, entry.action, entry.recordedAt, entry.fileId, entry.fileName,
+    entry.folder, entry.sizeBytes, entry.sha256, entry.md5, entry.projectName, entry.branchName, entry.databaseName
+  ];
+  return createHash('sha256').update(JSON.stringify(fields.map(field => field ?? null))).digest('hex');
+}
+
+/**
+ * Append entries to the catalog, chaining their hashes
+ */
+export function appendCatalogEntries(catalog: BackupCatalog, entries: CatalogEntryFields[]): void {
+  for (const fields of entries) {
+    const previous = catalog.entries[catalog.entries.length - 1];
+    const entry = {
+      ...fields,
+      sequence: previous ? previous.sequence + 1 : 1,
+      previousHash: previous ? previous.hash : ''
+    };
+    catalog.entries.push({ ...entry, hash: hashCatalogEntry(entry) });
+  }
+}
+
+/**
+ * Check the hash chain, returning a description of every broken link
+ */
+export function checkCatalogChain(catalog: BackupCatalog): string[] {
+  const problems: string[] = [];
+
+  catalog.entries.forEach((entry, index) => {
+    const previous = catalog.entries[index - 1];
+    if (entry.sequence !== index + 1) {
+      problems.push(`entry ${index + 1} has sequence number ${entry.sequence}`);
+    }
+    if (entry.previousHash !== (previous ? previous.hash : '')) {
+      problems.push(`entry ${entry.sequence} (${entry.fileName}) does not link to the entry before it`);
+    }
+    const { hash, ...rest } = entry;
+    if (hashCatalogEntry(rest) !== hash) {
+      problems.push(`entry ${entry.sequence} (${entry.fileName}) was modified after it was recorded`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Files the catalog says are in storage: every added file that has not been deleted since, by file ID
+ */
+export function getCatalogedFiles(catalog: BackupCatalog): Map<string, CatalogEntry> {
+  const files = new Map<string, CatalogEntry>();
+  for (const entry of catalog.entries) {
+    if (entry.action === 'added') {
+      files.set(entry.fileId, entry);
+    } else {
+      files.delete(entry.fileId);
+    }
+  }
+  return files;
+}
+
+/**
+ * Reads, extends and verifies the catalog in a storage backend
+ */
+export class BackupCatalogService {
+  private storageProvider: StorageProvider;
+  private workDir: string;
+
+  constructor(storageProvider: StorageProvider, workDir: string) {
+    this.storageProvider = storageProvider;
+    this.workDir = workDir;
+  }
+
+  /**
+   * Record uploaded and deleted backups in the catalog and return the new head hash
+   */
+  async record(
+    uploads: { backup: BackupResult; upload: UploadResult }[],
+    deletedFiles: StoredBackupFile[]
+  ): Promise<string | undefined> {
+    const files = await this.storageProvider.listBackupFiles();
+    const { catalog, catalogFile } = await this.load(files);
+    const cataloged = getCatalogedFiles(catalog);
+    const recordedAt = new Date().toISOString();
+
+    const entries: CatalogEntryFields[] = [];
+    for (const { backup, upload } of uploads) {
+      if (!upload.success || !upload.fileId) {
+        continue;
+      }
+      entries.push({
+        action: 'added',
+        recordedAt,
+        fileId: upload.fileId,
+        fileName: upload.fileName || backup.fileName!,
+        folder: backup.folder,
+        sizeBytes: backup.fileSize,
+        sha256: backup.checksum || upload.checksum,
+        md5: backup.md5Checksum || upload.md5Checksum,
+        projectName: backup.projectName,
+        branchName: backup.branchName,
+        databaseName: backup.databaseName
+      });
+    }
+    for (const file of deletedFiles) {
+      if (cataloged.has(file.id)) {
+        entries.push({ action: 'deleted', recordedAt, fileId: file.id, fileName: file.name, folder: file.folder });
+      }
+    }
+
+    if (entries.length === 0) {
+      return catalog.entries[catalog.entries.length - 1]?.hash;
+    }
+
+    appendCatalogEntries(catalog, entries);
+    await this.save(catalog, catalogFile);
+
+    const head = catalog.entries[catalog.entries.length - 1].hash;
+    console.log(`📒 Recorded ${entries.length} entries in the backup catalog (head ${head.slice(0, 12)})`);
+    return head;
+  }
+
+  /**
+   * Catalog entries of the files the catalog says are in storage, by file ID; empty when there is no catalog yet
+   */
+  async getEntries(files: StoredBackupFile[]): Promise<Map<string, CatalogEntry>> {
+    const { catalog } = await this.load(files);
+    return getCatalogedFiles(catalog);
+  }
+
+  /**
+   * Compare the catalog with what is actually in storage
+   */
+  async verify(options: CatalogVerifyOptions = {}): Promise<CatalogVerification> {
+    const files = await this.storageProvider.listBackupFiles();
+    const { catalog, catalogFile } = await this.load(files);
+
+    if (!catalogFile) {
+      throw new Error(`No ${CATALOG_FILE_NAME} found in ${this.storageProvider.name}`);
+    }
+
+    const issues: CatalogIssue[] = checkCatalogChain(catalog).map(detail => ({
+      kind: 'tampered' as const,
+      fileName: CATALOG_FILE_NAME,
+      detail
+    }));
+    if (options.expectedHead && !catalog.entries.some(entry => entry.hash === options.expectedHead)) {
+      issues.push({
+        kind: 'tampered',
+        fileName: CATALOG_FILE_NAME,
+        detail: `head ${options.expectedHead} is no longer part of the catalog, it has been rewritten`
+      });
+    }
+
+    const cataloged = getCatalogedFiles(catalog);
+    const storedById = new Map(files.map(file => [file.id, file]));
+    let verifiedFiles = 0;
+
+    for (const entry of Array.from(cataloged.values())) {
+      const stored = storedById.get(entry.fileId);
+      if (!stored) {
+        issues.push({ kind: 'missing', fileName: entry.fileName, fileId: entry.fileId, detail: 'file is no longer in storage' });
+        continue;
+      }
+
+      const problem = await this.checkFile(entry, stored, options.download);
+      if (problem) {
+        issues.push({ kind: 'corrupted', fileName: entry.fileName, fileId: entry.fileId, detail: problem });
+      } else {
+        verifiedFiles++;
+      }
+    }
+
+    for (const file of files) {
+      if (!cataloged.has(file.id) && !this.isCatalogOrReport(file)) {
+        issues.push({ kind: 'unexpected', fileName: file.name, fileId: file.id, detail: 'file is not in the catalog' });
+      }
+    }
+
+    return {
+      checkedFiles: cataloged.size,
+      verifiedFiles,
+      headHash: catalog.entries[catalog.entries.length - 1]?.hash,
+      issues
+    };
+  }
+
+  /**
+   * Compare one stored file with its catalog entry, returning what is wrong with it.
+   * The backend's MD5 is trusted unless a download is requested or the backend does not report one.
+   */
+  private async checkFile(entry: CatalogEntry, stored: StoredBackupFile, download?: boolean): Promise<string | undefined> {
+    if (entry.sizeBytes !== undefined && stored.size !== undefined && entry.sizeBytes !== stored.size) {
+      return `size is ${stored.size} bytes, catalog says ${entry.sizeBytes}`;
+    }
+    if (entry.sha256 && stored.checksum && entry.sha256 !== stored.checksum) {
+      return `stored SHA-256 property is ${stored.checksum}, catalog says ${entry.sha256}`;
+    }
+    if (!download && entry.md5 && stored.md5Checksum) {
+      return entry.md5 === stored.md5Checksum ? undefined : `MD5 is ${stored.md5Checksum}, catalog says ${entry.md5}`;
+    }
+    if (!entry.sha256) {
+      return undefined;
+    }
+
+    await fs.mkdir(this.workDir, { recursive: true });
+    const downloadPath = join(this.workDir, `verify-${entry.sequence}-${entry.fileName}`);
+    try {
+      await this.storageProvider.downloadBackup(stored.id, downloadPath);
+      const hashes = await computeFileHashes(downloadPath);
+      return hashes.sha256 === entry.sha256 ? undefined : `SHA-256 is ${hashes.sha256}, catalog says ${entry.sha256}`;
+    } finally {
+      await fs.rm(downloadPath, { force: true });
+    }
+  }
+
+  /**
+   * Load the catalog from storage; an empty catalog when there is none yet
+   */
+  private async load(files: StoredBackupFile[]): Promise<{ catalog: BackupCatalog; catalogFile?: StoredBackupFile }> {
+    const catalogFile = files.find(file => file.name === CATALOG_FILE_NAME && !file.folder);
+    if (!catalogFile) {
+      return { catalog: { schemaVersion: CATALOG_SCHEMA_VERSION, entries: [] } };
+    }
+
+    await fs.mkdir(this.workDir, { recursive: true });
+    const localPath = join(this.workDir, CATALOG_FILE_NAME);
+    await this.storageProvider.downloadBackup(catalogFile.id, localPath);
+
+    const catalog = JSON.parse(await fs.readFile(localPath, 'utf8')) as BackupCatalog;
+    if (catalog.schemaVersion !== CATALOG_SCHEMA_VERSION || !Array.isArray(catalog.entries)) {
+      throw new Error(`Unsupported backup catalog (schema version ${catalog.schemaVersion})`);
+    }
+    return { catalog, catalogFile };
+  }
+
+  /**
+   * Upload the catalog, then remove the copy it replaces
+   */
+  private async save(catalog: BackupCatalog, previous?: StoredBackupFile): Promise<void> {
+    await fs.mkdir(this.workDir, { recursive: true });
+    const localPath = join(this.workDir, CATALOG_FILE_NAME);
+    await fs.writeFile(localPath, JSON.stringify(catalog, null, 2) + '\n');
+
+    const upload = await this.storageProvider.uploadBackup(localPath, CATALOG_FILE_NAME, 'Neon backup catalog');
+    if (!upload.success) {
+      throw new Error(`Could not upload the backup catalog: ${upload.error}`);
+    }
+
+    // Local and S3 storage overwrite in place and keep the ID; Drive creates a second file
+    if (previous && previous.id !== upload.fileId) {
+      await this.storageProvider.deleteBackup(previous.id);
+    }
+  }
+
+  private isCatalogOrReport(file: StoredBackupFile): boolean {
+    return file.name === CATALOG_FILE_NAME || file.name.startsWith(`${RUN_REPORT_PREFIX}_`);
+  }
+}
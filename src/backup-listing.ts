@@ -0,0 +1,70 @@
+import { BackupMode, parseBackupFileName } from './backup-service';
+import { CatalogEntry } from './backup-catalog';
+import { isEncryptedBackup } from './encryption-service';
+import { RUN_REPORT_PREFIX } from './run-report';
+import { StoredBackupFile } from './storage-provider';
+
+export interface ListedBackup {
+  fileId: string;
+  fileName: string;
+  folder?: string;
+  databaseName?: string; // Known for cataloged backups
+  mode: BackupMode;
+  timestamp: string; // ISO 8601, as encoded in the file name
+  sizeBytes?: number;
+  encrypted: boolean;
+}
+
+/**
+ * Backups of one project/branch, newest first
+ */
+export interface BackupGroup {
+  source: string; // "project/branch", or the "<project>_<branch>_<database>" name prefix of uncataloged backups
+  projectName?: string;
+  branchName?: string;
+  backups: ListedBackup[];
+}
+
+/**
+ * Group the backups in storage by project and branch. Sanitized names can contain underscores, so a name alone
+ * does not tell where the branch name ends; the catalog does, and backups it does not know are grouped by name prefix.
+ * Run reports and the catalog are left out.
+ */
+export function groupBackupFiles(files: StoredBackupFile[], cataloged: Map<string, CatalogEntry> = new Map()): BackupGroup[] {
+  const groups = new Map<string, BackupGroup>();
+
+  for (const file of files) {
+    const parsed = parseBackupFileName(file.name);
+    if (!parsed || parsed.prefix === RUN_REPORT_PREFIX) {
+      continue;
+    }
+
+    const entry = cataloged.get(file.id);
+    const known = entry?.projectName && entry.branchName ? entry : undefined;
+    const source = known ? `${known.projectName}/${known.branchName}` : parsed.prefix;
+    const group = groups.get(source) || {
+      source,
+      projectName: known?.projectName,
+      branchName: known?.branchName,
+      backups: []
+    };
+
+    group.backups.push({
+      fileId: file.id,
+      fileName: file.name,
+      folder: file.folder,
+      databaseName: known?.databaseName,
+      mode: parsed.mode,
+      timestamp: parsed.timestamp.toISOString(),
+      sizeBytes: file.size,
+      encrypted: isEncryptedBackup(file.name)
+    });
+    groups.set(source, group);
+  }
+
+  const sorted = Array.from(groups.values()).sort((a, b) => a.source.localeCompare(b.source));
+  for (const group of sorted) {
+    group.backups.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+  return sorted;
+}
@@ -0,0 +1,121 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { BackupMode, DumpFormat } from './backup-service';
+import { CompressionCodec } from './compression';
+import { DatabaseActivity, SkippedResource } from './neon-discovery';
+import { RunReportDeletion, RunReportResource, RunReportSkip, toReportResource, toReportSkip } from './run-report';
+import { StoredBackupFile } from './storage-provider';
+
+/**
+ * Bumped whenever a field is renamed or removed; new optional fields keep the version
+ */
+export const BACKUP_PLAN_SCHEMA_VERSION = 1;
+
+export const BACKUP_PLAN_PREFIX = 'neon-backup-plan';
+
+/**
+ * A backup the run would create
+ */
+export interface BackupPlanEntry extends RunReportResource {
+  fileName: string; // Name the backup would be uploaded as; its timestamp is the planning time
+  folder?: string; // Destination sub-folder in storage
+  mode: BackupMode;
+  dumpFormat: DumpFormat;
+  compression: CompressionCodec;
+  encrypted: boolean;
+}
+
+/**
+ * Machine-readable result of a dry run, written as "neon-backup-plan_<YYYY-MM-DD_HH-MM-SS>.json".
+ * Lists what a real run would dump and which stored files its cleanup would delete.
+ */
+export interface BackupPlan {
+  schemaVersion: number;
+  generatedAt: string; // ISO 8601
+  storage: string; // Storage backend name
+  activityWindow: string;
+  backups: BackupPlanEntry[];
+  skipped: RunReportSkip[];
+  cleanup: 'disabled' | 'age' | 'retention'; // Age-based cleanup, retention policies, or none
+  deletions: {
+    local: string[]; // File names in the output directory
+    storage: RunReportDeletion[];
+  };
+  totals: {
+    backups: number;
+    skipped: number;
+    localDeletions: number;
+    storageDeletions: number;
+  };
+}
+
+export interface PlannedBackup {
+  resource: DatabaseActivity;
+  fileName: string;
+  folder?: string;
+  mode: BackupMode;
+  format: DumpFormat;
+  compression: CompressionCodec;
+  encrypted: boolean;
+}
+
+export interface BackupPlanInput {
+  generatedAt: Date;
+  storage: string;
+  activityWindow: string;
+  backups: PlannedBackup[];
+  skipped: SkippedResource[];
+  cleanup: BackupPlan['cleanup'];
+  localDeletions: string[];
+  storageDeletions: StoredBackupFile[];
+}
+
+/**
+ * Assemble the plan from discovery and the cleanup that was only simulated
+ */
+export function createBackupPlan(input: BackupPlanInput): BackupPlan {
+  return {
+    schemaVersion: BACKUP_PLAN_SCHEMA_VERSION,
+    generatedAt: input.generatedAt.toISOString(),
+    storage: input.storage,
+    activityWindow: input.activityWindow,
+    backups: input.backups.map(backup => ({
+      ...toReportResource(backup.resource),
+      fileName: backup.fileName,
+      folder: backup.folder,
+      mode: backup.mode,
+      dumpFormat: backup.format,
+      compression: backup.compression,
+      encrypted: backup.encrypted
+    })),
+    skipped: input.skipped.map(toReportSkip),
+    cleanup: input.cleanup,
+    deletions: {
+      local: input.localDeletions,
+      storage: input.storageDeletions.map(file => ({
+        fileId: file.id,
+        fileName: file.name,
+        createdTime: file.createdTime
+      }))
+    },
+    totals: {
+      backups: input.backups.length,
+      skipped: input.skipped.length,
+      localDeletions: input.localDeletions.length,
+      storageDeletions: input.storageDeletions.length
+    }
+  };
+}
+
+/**
+ * Write the plan as pretty-printed JSON and return its path
+ */
+export async function writeBackupPlan(plan: BackupPlan, outputDir: string): Promise<string> {
+  const timestamp = plan.generatedAt.slice(0, 19).replace('T', '_').replace(/:/g, '-');
+  const filePath = join(outputDir, `${BACKUP_PLAN_PREFIX}_${timestamp}.json`);
+
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(plan, null, 2) + '\n');
+
+  return filePath;
+}
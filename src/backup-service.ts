@@ -1,19 +1,68 @@
 import { spawn } from 'child_process';
-import { promises as fs } from 'fs';
-import { join } from 'path';
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { basename, dirname, join } from 'path';
+import { Readable, Transform, TransformCallback, pipeline } from 'stream';
 import { parse } from 'pg-connection-string';
 import { DatabaseActivity } from './neon-discovery';
-import archiver from 'archiver';
+import AdmZip from 'adm-zip';
+import { CleanupOptions, RetentionPolicy, RetentionPolicyResolver, describeRetentionPolicy, selectBackupsToDelete } from './retention-policy';
+import { VerificationResult } from './verification-service';
+import { UploadResult } from './storage-provider';
+import { KeyedSemaphore, Semaphore } from './concurrency';
+import { Retrier, RetryableError, isRetryablePostgresError } from './retry';
+import {
+  CompressionCodec,
+  CompressionSettings,
+  compressPath,
+  compressStream,
+  decompressFile,
+  detectCompressionCodec,
+  getCodecExtension,
+  resolveCompression,
+  unpackTar
+} from './compression';
 
 export interface BackupResult {
   success: boolean;
+  projectName?: string;
+  branchName?: string;
+  databaseName?: string;
   filePath?: string;
   fileName?: string;
   fileSize?: number;
-  sqlFilePath?: string; // Path to the original SQL file
-  zipFilePath?: string; // Path to the compressed ZIP file
+  checksum?: string; // SHA-256 of the uploaded file, hex encoded
+  md5Checksum?: string; // MD5 of the uploaded file, hex encoded, comparable with what Drive and S3 report
+  folder?: string; // Destination sub-folder in storage
+  format?: DumpFormat;
+  mode?: BackupMode;
+  compression?: CompressionCodec;
+  dumpPath?: string; // Path to the pg_dump output: SQL file, archive or, for the directory format, a directory
+  archivePath?: string; // Path to the compressed file that is uploaded; the dump itself when it is not compressed
   error?: string;
   duration?: number;
+  attempts?: number; // pg_dump runs it took, retries included
+  verification?: VerificationResult; // Set when the test-restore stage ran
+  encrypted?: boolean; // filePath points to an OpenPGP-encrypted archive
+}
+
+export interface ParsedBackupFileName {
+  prefix: string; // Sanitized "<project>_<branch>_<database>" part of the name
+  timestamp: Date;
+  timestampLabel: string; // Timestamp as encoded in the name (YYYY-MM-DD_HH-MM-SS)
+  mode: BackupMode; // From the tag after the timestamp; untagged backups are full
+  extension: string; // Everything after the timestamp and mode tag, e.g. 'zip' or 'zip.gpg'
+}
+
+export interface StreamingBackupOptions extends BackupOptions {
+  transform?: (stream: Readable) => Promise<Readable>; // Applied to the compressed stream before upload, e.g. encryption
+  fileNameSuffix?: string; // Appended to the compressed file name, e.g. '.gpg'
+}
+
+export interface BackupConcurrency {
+  dumps?: number; // pg_dump processes running at the same time (default: 1)
+  dumpsPerProject?: number; // Cap per Neon project, so one compute endpoint isn't hammered (default: 1)
+  afterBackup?: (result: BackupResult, resource: DatabaseActivity) => Promise<void>; // Per-backup follow-up such as the upload
 }
 
 export interface BackupOptions {
@@ -21,21 +70,209 @@ export interface BackupOptions {
   compressionLevel?: number;
   includeBlobs?: boolean;
   includePrivileges?: boolean;
-  customFormat?: boolean;
+  format?: DumpFormat;
+  jobs?: number; // Parallel pg_dump workers, directory format only
+  compression?: CompressionSettings; // Codec and level of the uploaded file (default: ZIP)
+  mode?: BackupMode; // Default: full
+  schemas?: string[]; // pg_dump patterns; only these schemas are dumped
+  excludeSchemas?: string[];
+  tables?: string[]; // pg_dump patterns; only these tables are dumped
+  excludeTables?: string[];
+  excludeTableData?: string[]; // Tables dumped without their rows
+}
+
+/**
+ * What a backup contains: schema and data, only the DDL, or only the rows
+ */
+export type BackupMode = 'full' | 'schema-only' | 'data-only';
+
+export const BACKUP_MODES: BackupMode[] = ['full', 'schema-only', 'data-only'];
+
+// Tag between the timestamp and the extension, e.g. "<backup>.schema.sql"; full backups are untagged
+const MODE_TAGS: Record<BackupMode, string> = {
+  full: '',
+  'schema-only': 'schema',
+  'data-only': 'data'
+};
+
+/**
+ * pg_dump output formats: plain SQL, or an archive restored with pg_restore
+ */
+export type DumpFormat = 'plain' | 'custom' | 'directory' | 'tar';
+
+export const DUMP_FORMATS: DumpFormat[] = ['plain', 'custom', 'directory', 'tar'];
+
+// Extension of the pg_dump output inside the ZIP; a directory dump is a folder named "<backup>.dir"
+const DUMP_EXTENSIONS: Record<DumpFormat, string> = {
+  plain: 'sql',
+  custom: 'dump',
+  directory: 'dir',
+  tar: 'tar'
+};
+
+const BACKUP_FILE_NAME_PATTERN = /^(.+)_(\d{4}-\d{2}-\d{2})_(\d{2})-(\d{2})-(\d{2})(?:\.(schema|data))?\.([a-z0-9.]+)$/;
+
+/**
+ * Parse a backup mode setting
+ */
+export function parseBackupMode(name: string, value: string): BackupMode {
+  if (!BACKUP_MODES.includes(value as BackupMode)) {
+    throw new Error(`${name} must be one of ${BACKUP_MODES.join(', ')}, got '${value}'`);
+  }
+  return value as BackupMode;
+}
+
+/**
+ * Whether dump options leave out part of the database: a schema- or data-only mode, or table and schema filters
+ */
+export function isPartialDump(options: BackupOptions): boolean {
+  return (options.mode !== undefined && options.mode !== 'full') ||
+    [options.schemas, options.excludeSchemas, options.tables, options.excludeTables, options.excludeTableData]
+      .some(list => list !== undefined && list.length > 0);
+}
+
+/**
+ * Format of a pg_dump output file or directory, judging by its extension
+ */
+export function getDumpFormat(fileName: string): DumpFormat | undefined {
+  const extension = fileName.replace(/\/+$/, '').split('.').pop();
+  return DUMP_FORMATS.find(format => DUMP_EXTENSIONS[format] === extension);
+}
+
+/**
+ * Client tool that replays a dump of a format: psql for plain SQL, pg_restore for archives
+ */
+export function getRestoreTool(format: DumpFormat): 'psql' | 'pg_restore' {
+  return format === 'plain' ? 'psql' : 'pg_restore';
+}
+
+/**
+ * Name of the uploaded file for a dump: ZIP replaces the dump's extension, other codecs add theirs.
+ * Directory dumps are stored in a tar archive unless they are zipped.
+ */
+export function getArchiveFileName(dumpFileName: string, codec: CompressionCodec): string {
+  if (codec === 'zip') {
+    return dumpFileName.replace(/\.(sql|dump|dir|tar)$/, '.zip');
+  }
+  const name = getDumpFormat(dumpFileName) === 'directory' ? `${dumpFileName}.tar` : dumpFileName;
+  return codec === 'none' ? name : `${name}.${getCodecExtension(codec)}`;
+}
+
+/**
+ * Replace characters that are not allowed in backup file names
+ */
+export function sanitizeBackupNamePart(name: string): string {
+  return name.replace(/[^a-zA-Z0-9-_]/g, '_');
+}
+
+/**
+ * Parse a file name produced by generateBackupFileName, returns null for foreign files
+ */
+export function parseBackupFileName(fileName: string): ParsedBackupFileName | null {
+  const match = BACKUP_FILE_NAME_PATTERN.exec(fileName);
+  if (!match) {
+    return null;
+  }
+
+  const [, prefix, date, hours, minutes, seconds, modeTag, extension] = match;
+  const timestamp = new Date(`${date}T${hours}:${minutes}:${seconds}Z`);
+  if (isNaN(timestamp.getTime())) {
+    return null;
+  }
+
+  return {
+    prefix,
+    timestamp,
+    timestampLabel: `${date}_${hours}-${minutes}-${seconds}`,
+    mode: BACKUP_MODES.find(mode => MODE_TAGS[mode] === (modeTag || '')) || 'full',
+    extension
+  };
+}
+
+export interface FileHashes {
+  sha256: string; // Hex encoded
+  md5: string; // Hex encoded
+}
+
+/**
+ * SHA-256 and MD5 of a file in one pass
+ */
+export async function computeFileHashes(filePath: string): Promise<FileHashes> {
+  const sha256 = createHash('sha256');
+  const md5 = createHash('md5');
+  for await (const chunk of createReadStream(filePath)) {
+    sha256.update(chunk);
+    md5.update(chunk);
+  }
+  return { sha256: sha256.digest('hex'), md5: md5.digest('hex') };
+}
+
+/**
+ * Pass-through that counts and computes the SHA-256 and MD5 of the bytes written through it, so files are hashed as they are written
+ */
+export class HashingStream extends Transform {
+  size = 0; // Bytes passed through
+  private sha256 = createHash('sha256');
+  private md5 = createHash('md5');
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.size += chunk.length;
+    this.sha256.update(chunk);
+    this.md5.update(chunk);
+    callback(null, chunk);
+  }
+
+  /**
+   * Hashes of everything written so far; call once the stream has finished
+   */
+  digest(): FileHashes {
+    return { sha256: this.sha256.digest('hex'), md5: this.md5.digest('hex') };
+  }
+}
+
+/**
+ * Map each "<project>_<branch>_<database>" prefix to the timestamp of its newest backup of a mode
+ */
+export function findLatestBackups(fileNames: string[], mode: BackupMode = 'full'): Map<string, Date> {
+  const latest = new Map<string, Date>();
+
+  for (const fileName of fileNames) {
+    const parsed = parseBackupFileName(fileName);
+    if (!parsed || parsed.mode !== mode) {
+      continue;
+    }
+
+    const current = latest.get(parsed.prefix);
+    if (!current || parsed.timestamp > current) {
+      latest.set(parsed.prefix, parsed.timestamp);
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Human-readable description of a backup, used as the Drive file description
+ */
+export function describeBackup(backup: BackupResult): string {
+  const source = [backup.projectName, backup.branchName, backup.databaseName].filter(Boolean).join('/');
+  return `Neon database backup${source ? ` of ${source}` : ''} created on ${new Date().toISOString()}`;
 }
 
 export class DatabaseBackupService {
   private outputDir: string;
   private defaultOptions: BackupOptions;
+  private retrier: Retrier;
 
-  constructor(outputDir: string = './backups', options: BackupOptions = {}) {
+  constructor(outputDir: string = './backups', options: BackupOptions = {}, retrier: Retrier = new Retrier()) {
     this.outputDir = outputDir;
+    this.retrier = retrier;
     this.defaultOptions = {
       outputDir,
       compressionLevel: 6,
       includeBlobs: true,
       includePrivileges: true,
-      customFormat: false, // Use plain SQL format for readability
+      format: 'plain', // Plain SQL for readability
       ...options
     };
   }
@@ -54,45 +291,124 @@ export class DatabaseBackupService {
   }
 
   /**
-   * Compress a SQL file to ZIP format
+   * Compress a pg_dump output next to it and return the compressed file; an uncompressed
+   * single-file dump is returned as it is. ZIP archives keep the dump's name, which tells restore the format.
    */
-  private async compressToZip(sqlFilePath: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const zipFilePath = sqlFilePath.replace(/\.sql$/, '.zip');
-      const output = require('fs').createWriteStream(zipFilePath);
-      const archive = archiver('zip', {
-        zlib: { level: 9 } // Maximum compression
-      });
-
-      output.on('close', () => {
-        console.log(`📦 Compressed to ZIP: ${archive.pointer()} bytes`);
-        resolve(zipFilePath);
-      });
+  private async compressDump(dumpPath: string, settings?: CompressionSettings): Promise<{ archivePath: string; hashes: FileHashes }> {
+    const { codec, level } = resolveCompression(settings);
+    const archivePath = join(dirname(dumpPath), getArchiveFileName(basename(dumpPath), codec));
+    if (archivePath === dumpPath) {
+      // pg_dump wrote the uploaded file itself, so it has to be read once to hash it
+      return { archivePath, hashes: await computeFileHashes(dumpPath) };
+    }
 
-      archive.on('error', (err: Error) => {
-        reject(err);
-      });
+    console.log(`📦 Compressing dump (${codec}${codec === 'none' ? '' : `, level ${level}`})...`);
+    const hashing = new HashingStream();
+    await compressPath(dumpPath, archivePath, basename(dumpPath), settings, hashing);
+    return { archivePath, hashes: hashing.digest() };
+  }
 
-      archive.pipe(output);
-      
-      // Add the SQL file to the ZIP
-      const fileName = require('path').basename(sqlFilePath);
-      archive.file(sqlFilePath, { name: fileName });
-      
-      archive.finalize();
-    });
+  /**
+   * Name the archive of a backup of `resource` taken now would be uploaded as, before encryption
+   */
+  getBackupFileName(resource: DatabaseActivity, options: BackupOptions = {}): string {
+    const mergedOptions = { ...this.defaultOptions, ...options };
+    const dumpFileName = this.generateBackupFileName(
+      resource.project_name,
+      resource.branch_name,
+      resource.database_name,
+      mergedOptions.format,
+      mergedOptions.mode
+    );
+    return getArchiveFileName(dumpFileName, resolveCompression(mergedOptions.compression).codec);
   }
 
   /**
    * Generate a backup filename
    */
-  private generateBackupFileName(projectName: string, branchName: string, customFormat: boolean = true): string {
+  private generateBackupFileName(
+    projectName: string,
+    branchName: string,
+    databaseName: string,
+    format: DumpFormat = 'plain',
+    mode: BackupMode = 'full'
+  ): string {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').replace('T', '_').slice(0, -5);
-    const sanitizedProjectName = projectName.replace(/[^a-zA-Z0-9-_]/g, '_');
-    const sanitizedBranchName = branchName.replace(/[^a-zA-Z0-9-_]/g, '_');
-    const extension = customFormat ? 'dump' : 'sql';
+    const sanitizedProjectName = sanitizeBackupNamePart(projectName);
+    const sanitizedBranchName = sanitizeBackupNamePart(branchName);
+    const sanitizedDatabaseName = sanitizeBackupNamePart(databaseName);
+    const modeTag = MODE_TAGS[mode] ? `.${MODE_TAGS[mode]}` : '';
+    
+    return `${sanitizedProjectName}_${sanitizedBranchName}_${sanitizedDatabaseName}_${timestamp}${modeTag}.${DUMP_EXTENSIONS[format]}`;
+  }
+
+  /**
+   * Build the pg_dump arguments for a connection and backup options, without the output target
+   */
+  private buildPgDumpArgs(config: ReturnType<typeof parse>, mergedOptions: BackupOptions): string[] {
+    const args: string[] = [];
+    
+    // Connection parameters
+    args.push(`--host=${config.host}`);
+    args.push(`--port=${config.port || 5432}`);
+    args.push(`--username=${config.user}`);
+    args.push(`--dbname=${config.database}`);
+    
+    // Backup options
+    const format = mergedOptions.format || 'plain';
+    args.push(`--format=${format}`);
+    if (format === 'plain') {
+      args.push('--column-inserts'); // Use INSERT statements instead of COPY
+    }
+    
+    // pg_dump compresses custom and directory archives itself; tar archives cannot be compressed
+    if (mergedOptions.compressionLevel !== undefined && (format === 'custom' || format === 'directory')) {
+      args.push(`--compress=${mergedOptions.compressionLevel}`);
+    }
+    
+    if (format === 'directory' && mergedOptions.jobs && mergedOptions.jobs > 1) {
+      args.push(`--jobs=${mergedOptions.jobs}`);
+    }
+    
+    // Scope: large objects are data, so they are left out of schema-only dumps
+    if (mergedOptions.mode === 'schema-only') {
+      args.push('--schema-only');
+    } else if (mergedOptions.mode === 'data-only') {
+      args.push('--data-only');
+    }
+    
+    if (mergedOptions.includeBlobs && mergedOptions.mode !== 'schema-only') {
+      args.push('--blobs');
+    }
+    
+    for (const pattern of mergedOptions.schemas || []) args.push(`--schema=${pattern}`);
+    for (const pattern of mergedOptions.excludeSchemas || []) args.push(`--exclude-schema=${pattern}`);
+    for (const pattern of mergedOptions.tables || []) args.push(`--table=${pattern}`);
+    for (const pattern of mergedOptions.excludeTables || []) args.push(`--exclude-table=${pattern}`);
+    for (const pattern of mergedOptions.excludeTableData || []) args.push(`--exclude-table-data=${pattern}`);
+    
+    if (mergedOptions.includePrivileges) {
+      args.push('--no-privileges');
+    } else {
+      args.push('--no-acl');
+    }
     
-    return `${sanitizedProjectName}_${sanitizedBranchName}_${timestamp}.${extension}`;
+    // Output options
+    args.push('--verbose');
+    args.push('--no-password');
+    
+    return args;
+  }
+
+  /**
+   * Environment for PostgreSQL client tools connecting with a password
+   */
+  private buildPgEnv(password: string | undefined, connectionUri: string): NodeJS.ProcessEnv {
+    return {
+      ...process.env,
+      PGPASSWORD: password || '',
+      PGSSLMODE: this.getSslMode(connectionUri)
+    };
   }
 
   /**
@@ -104,15 +420,21 @@ export class DatabaseBackupService {
   ): Promise<BackupResult> {
     const startTime = Date.now();
     const mergedOptions = { ...this.defaultOptions, ...options };
+    const identity = {
+      projectName: resource.project_name,
+      branchName: resource.branch_name,
+      databaseName: resource.database_name
+    };
     
     if (!resource.connection_uri) {
       return {
+        ...identity,
         success: false,
         error: 'No connection URI provided'
       };
     }
 
-    console.log(`🗄️  Starting backup for ${resource.project_name}/${resource.branch_name}...`);
+    console.log(`🗄️  Starting backup for ${resource.project_name}/${resource.branch_name}/${resource.database_name}...`);
 
     try {
       // Parse connection URI
@@ -126,94 +448,67 @@ export class DatabaseBackupService {
       const fileName = this.generateBackupFileName(
         resource.project_name, 
         resource.branch_name, 
-        mergedOptions.customFormat
+        resource.database_name,
+        mergedOptions.format,
+        mergedOptions.mode
       );
       const filePath = join(this.outputDir, fileName);
 
       // Build pg_dump command arguments
-      const args: string[] = [];
-      
-      // Connection parameters
-      args.push(`--host=${config.host}`);
-      args.push(`--port=${config.port || 5432}`);
-      args.push(`--username=${config.user}`);
-      args.push(`--dbname=${config.database}`);
-      
-      // Backup options
-      if (mergedOptions.customFormat) {
-        args.push('--format=custom');
-      } else {
-        args.push('--format=plain');
-        args.push('--column-inserts'); // Use INSERT statements instead of COPY
-      }
-      
-      if (mergedOptions.compressionLevel !== undefined && mergedOptions.customFormat) {
-        args.push(`--compress=${mergedOptions.compressionLevel}`);
-      }
-      
-      if (mergedOptions.includeBlobs) {
-        args.push('--blobs');
-      }
-      
-      if (mergedOptions.includePrivileges) {
-        args.push('--no-privileges');
-      } else {
-        args.push('--no-acl');
-      }
-      
-      // Output options
-      args.push('--verbose');
-      args.push('--no-password');
+      const args = this.buildPgDumpArgs(config, mergedOptions);
       args.push(`--file=${filePath}`);
 
       // Set environment variables for connection
-      const env = {
-        ...process.env,
-        PGPASSWORD: config.password || '',
-        PGSSLMODE: 'require'
-      };
+      const env = this.buildPgEnv(config.password, resource.connection_uri);
 
-      // Execute pg_dump
-      const result = await this.executePgDump(args, env);
+      // Execute pg_dump, retrying dropped connections and computes that are still waking up
+      const result = await this.executePgDumpWithRetry(args, env, filePath, `pg_dump of ${resource.project_name}/${resource.branch_name}/${resource.database_name}`);
 
       if (result.success) {
-        // Get original SQL file size
-        const sqlStats = await fs.stat(filePath);
-        const sqlFileSize = sqlStats.size;
+        // Get the size of the pg_dump output
+        const dumpSize = await this.getDumpSize(filePath);
         
-        console.log(`✅ SQL backup completed: ${fileName} (${this.formatFileSize(sqlFileSize)})`);
+        console.log(`✅ Dump completed: ${fileName} (${this.formatFileSize(dumpSize)})`);
         
-        // Compress the SQL file to ZIP
-        console.log(`📦 Compressing SQL file to ZIP...`);
-        const zipFilePath = await this.compressToZip(filePath);
-        const zipStats = await fs.stat(zipFilePath);
-        const zipFileSize = zipStats.size;
+        // Compress the dump for upload
+        const { archivePath, hashes } = await this.compressDump(filePath, mergedOptions.compression);
+        const archiveSize = (await fs.stat(archivePath)).size;
         const duration = Date.now() - startTime;
         
-        console.log(`✅ Backup completed: ${require('path').basename(zipFilePath)} (${this.formatFileSize(zipFileSize)}) in ${duration}ms`);
-        console.log(`📊 Compression ratio: ${Math.round((1 - zipFileSize / sqlFileSize) * 100)}%`);
+        console.log(`✅ Backup completed: ${basename(archivePath)} (${this.formatFileSize(archiveSize)}) in ${duration}ms`);
+        console.log(`📊 Compression ratio: ${Math.round((1 - archiveSize / dumpSize) * 100)}%`);
 
         return {
+          ...identity,
           success: true,
-          filePath: zipFilePath, // Return ZIP file path for upload
-          fileName: require('path').basename(zipFilePath),
-          fileSize: zipFileSize,
-          sqlFilePath: filePath,
-          zipFilePath: zipFilePath,
-          duration
+          filePath: archivePath, // Return the compressed file path for upload
+          fileName: basename(archivePath),
+          fileSize: archiveSize,
+          checksum: hashes.sha256,
+          md5Checksum: hashes.md5,
+          format: mergedOptions.format,
+          mode: mergedOptions.mode || 'full',
+          compression: resolveCompression(mergedOptions.compression).codec,
+          dumpPath: filePath,
+          archivePath,
+          duration,
+          attempts: result.attempts
         };
       } else {
         return {
+          ...identity,
           success: false,
-          error: result.error
+          error: result.error,
+          attempts: result.attempts
         };
       }
 
     } catch (error) {
       const duration = Date.now() - startTime;
-      console.error(`❌ Backup failed for ${resource.project_name}/${resource.branch_name}:`, error);
+      console.error(`❌ Backup failed for ${resource.project_name}/${resource.branch_name}/${resource.database_name}:`, error);
       
       return {
+        ...identity,
         success: false,
         error: error instanceof Error ? error.message : String(error),
         duration
@@ -221,28 +516,191 @@ export class DatabaseBackupService {
     }
   }
 
+  /**
+   * Size of a pg_dump output in bytes; a directory dump is the sum of its files
+   */
+  private async getDumpSize(dumpPath: string): Promise<number> {
+    const stats = await fs.stat(dumpPath);
+    if (!stats.isDirectory()) {
+      return stats.size;
+    }
+
+    let size = 0;
+    for (const entry of await fs.readdir(dumpPath)) {
+      size += (await fs.stat(join(dumpPath, entry))).size;
+    }
+    return size;
+  }
+
+  /**
+   * SSL mode requested by a connection URI, defaulting to 'require' as Neon needs
+   */
+  private getSslMode(connectionUri: string): string {
+    try {
+      return new URL(connectionUri).searchParams.get('sslmode') || 'require';
+    } catch {
+      return 'require';
+    }
+  }
+
+  /**
+   * Dump a database straight into an upload: pg_dump stdout is compressed and handed to `upload` as a stream,
+   * so neither the dump nor the compressed file touches the disk. The directory format cannot be streamed.
+   */
+  async createStreamingBackup(
+    resource: DatabaseActivity,
+    upload: (stream: Readable, fileName: string) => Promise<UploadResult>,
+    options: StreamingBackupOptions = {}
+  ): Promise<{ backup: BackupResult; upload?: UploadResult }> {
+    const startTime = Date.now();
+    const mergedOptions = { ...this.defaultOptions, ...options };
+    const identity = {
+      projectName: resource.project_name,
+      branchName: resource.branch_name,
+      databaseName: resource.database_name
+    };
+
+    if (!resource.connection_uri) {
+      return { backup: { ...identity, success: false, error: 'No connection URI provided' } };
+    }
+    if (mergedOptions.format === 'directory') {
+      return { backup: { ...identity, success: false, error: 'Directory-format dumps cannot be streamed' } };
+    }
+
+    console.log(`🗄️  Starting streaming backup for ${resource.project_name}/${resource.branch_name}/${resource.database_name}...`);
+
+    try {
+      const config = parse(resource.connection_uri);
+
+      if (!config.host || !config.database || !config.user) {
+        throw new Error('Invalid connection URI - missing required fields');
+      }
+
+      const dumpFileName = this.generateBackupFileName(
+        resource.project_name,
+        resource.branch_name,
+        resource.database_name,
+        mergedOptions.format,
+        mergedOptions.mode
+      );
+      const { codec } = resolveCompression(mergedOptions.compression);
+      const fileName = getArchiveFileName(dumpFileName, codec) + (options.fileNameSuffix || '');
+
+      const pgDump = spawn(this.getPgDumpPath(), this.buildPgDumpArgs(config, mergedOptions), {
+        env: this.buildPgEnv(config.password, resource.connection_uri),
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+
+      let stderr = '';
+      pgDump.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      const compressed = compressStream(pgDump.stdout, dumpFileName, mergedOptions.compression);
+
+      // Only end the compressed stream once pg_dump succeeded; otherwise fail it so the upload is never completed
+      const dumpFinished = new Promise<void>((resolve, reject) => {
+        pgDump.on('close', (code) => {
+          if (code === 0) {
+            compressed.finish();
+            resolve();
+          } else {
+            const error = new Error(`pg_dump exited with code ${code}. stderr: ${stderr}`);
+            compressed.stream.destroy(error);
+            reject(error);
+          }
+        });
+        pgDump.on('error', (error) => {
+          compressed.stream.destroy(error);
+          reject(error);
+        });
+      });
+      dumpFinished.catch(() => undefined);
+
+      let stream: Readable = compressed.stream;
+      if (options.transform) {
+        stream = await options.transform(stream).catch(error => {
+          pgDump.kill();
+          throw error;
+        });
+      }
+
+      // Counted and hashed inside the pipe, so nothing flows before the upload starts reading
+      const hashing = new HashingStream();
+      pipeline(stream, hashing, () => undefined);
+
+      const uploadResult = await upload(hashing, fileName);
+
+      if (!uploadResult.success) {
+        // The upload gave up early, don't leave pg_dump blocked on a full pipe
+        pgDump.kill();
+        throw new Error(uploadResult.error || 'Streaming upload failed');
+      }
+      await dumpFinished;
+
+      const hashes = hashing.digest();
+      const duration = Date.now() - startTime;
+      console.log(`✅ Streaming backup completed: ${fileName} (${this.formatFileSize(hashing.size)}) in ${duration}ms`);
+
+      return {
+        backup: {
+          ...identity,
+          success: true,
+          fileName,
+          fileSize: hashing.size,
+          checksum: hashes.sha256,
+          md5Checksum: hashes.md5,
+          format: mergedOptions.format,
+          mode: mergedOptions.mode || 'full',
+          compression: codec,
+          duration
+        },
+        upload: uploadResult
+      };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      console.error(`❌ Streaming backup failed for ${resource.project_name}/${resource.branch_name}/${resource.database_name}:`, error);
+
+      return {
+        backup: {
+          ...identity,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          duration
+        }
+      };
+    }
+  }
+
   /**
    * Get the pg_dump executable path
    */
   private getPgDumpPath(): string {
+    return this.getPgToolPath('pg_dump');
+  }
+
+  /**
+   * Get the path of a PostgreSQL client tool (pg_dump, psql, ...)
+   */
+  private getPgToolPath(tool: string): string {
     // On Windows, try common PostgreSQL installation paths
     if (process.platform === 'win32') {
       const commonPaths = [
-        'C:\\Program Files\\PostgreSQL\\17\\bin\\pg_dump.exe',
-        'C:\\Program Files\\PostgreSQL\\16\\bin\\pg_dump.exe',
-        'C:\\Program Files\\PostgreSQL\\15\\bin\\pg_dump.exe',
-        'C:\\Program Files\\PostgreSQL\\14\\bin\\pg_dump.exe',
-        'C:\\Program Files (x86)\\PostgreSQL\\17\\bin\\pg_dump.exe',
-        'C:\\Program Files (x86)\\PostgreSQL\\16\\bin\\pg_dump.exe',
-        'C:\\Program Files (x86)\\PostgreSQL\\15\\bin\\pg_dump.exe',
-        'C:\\Program Files (x86)\\PostgreSQL\\14\\bin\\pg_dump.exe'
+        `C:\\Program Files\\PostgreSQL\\17\\bin\\${tool}.exe`,
+        `C:\\Program Files\\PostgreSQL\\16\\bin\\${tool}.exe`,
+        `C:\\Program Files\\PostgreSQL\\15\\bin\\${tool}.exe`,
+        `C:\\Program Files\\PostgreSQL\\14\\bin\\${tool}.exe`,
+        `C:\\Program Files (x86)\\PostgreSQL\\17\\bin\\${tool}.exe`,
+        `C:\\Program Files (x86)\\PostgreSQL\\16\\bin\\${tool}.exe`,
+        `C:\\Program Files (x86)\\PostgreSQL\\15\\bin\\${tool}.exe`,
+        `C:\\Program Files (x86)\\PostgreSQL\\14\\bin\\${tool}.exe`
       ];
       
       const fs = require('fs');
       for (const path of commonPaths) {
         try {
           if (fs.existsSync(path)) {
-            console.log(`🔍 Found pg_dump at: ${path}`);
+            console.log(`🔍 Found ${tool} at: ${path}`);
             return path;
           }
         } catch {
@@ -251,17 +709,51 @@ export class DatabaseBackupService {
       }
     }
     
-    // Default to 'pg_dump' (assumes it's in PATH)
-    return 'pg_dump';
+    // Default to the bare tool name (assumes it's in PATH)
+    return tool;
   }
   
   /**
    * Execute pg_dump command
    */
   private async executePgDump(args: string[], env: NodeJS.ProcessEnv): Promise<{ success: boolean; error?: string }> {
+    return this.executePgTool('pg_dump', args, env);
+  }
+
+  /**
+   * Execute pg_dump under the retry policy; the output of a failed attempt is removed before the next one
+   */
+  private async executePgDumpWithRetry(
+    args: string[],
+    env: NodeJS.ProcessEnv,
+    outputPath: string,
+    description: string
+  ): Promise<{ success: boolean; error?: string; attempts: number }> {
+    let attempts = 0;
+    try {
+      await this.retrier.run('pgDump', description, async attempt => {
+        attempts = attempt;
+        if (attempt > 1) {
+          await fs.rm(outputPath, { recursive: true, force: true });
+        }
+        const result = await this.executePgDump(args, env);
+        if (!result.success) {
+          throw new RetryableError(result.error!, isRetryablePostgresError(result.error!));
+        }
+      });
+      return { success: true, attempts };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error), attempts };
+    }
+  }
+
+  /**
+   * Execute a PostgreSQL client tool and capture its result
+   */
+  private async executePgTool(tool: string, args: string[], env: NodeJS.ProcessEnv): Promise<{ success: boolean; error?: string }> {
     return new Promise((resolve) => {
-      const pgDumpPath = this.getPgDumpPath();
-      const process = spawn(pgDumpPath, args, {
+      const toolPath = this.getPgToolPath(tool);
+      const process = spawn(toolPath, args, {
         env,
         stdio: ['pipe', 'pipe', 'pipe']
       });
@@ -283,7 +775,7 @@ export class DatabaseBackupService {
         } else {
           resolve({ 
             success: false, 
-            error: `pg_dump exited with code ${code}. stderr: ${stderr}` 
+            error: `${tool} exited with code ${code}. stderr: ${stderr}` 
           });
         }
       });
@@ -292,12 +784,12 @@ export class DatabaseBackupService {
         if (error.message.includes('ENOENT')) {
           resolve({ 
             success: false, 
-            error: `pg_dump not found. Please install PostgreSQL client tools. On Windows: Download from https://www.postgresql.org/download/windows/ or use: winget install PostgreSQL.PostgreSQL` 
+            error: `${tool} not found. Please install PostgreSQL client tools. On Windows: Download from https://www.postgresql.org/download/windows/ or use: winget install PostgreSQL.PostgreSQL` 
           });
         } else {
           resolve({ 
             success: false, 
-            error: `Failed to start pg_dump: ${error.message}` 
+            error: `Failed to start ${tool}: ${error.message}` 
           });
         }
       });
@@ -305,33 +797,169 @@ export class DatabaseBackupService {
   }
 
   /**
-   * Create backups for multiple resources
+   * Decompress a downloaded backup, returns the path of the contained dump file or directory.
+   * The codec is detected from the file's contents; the dump format from the name inside a ZIP or the file name.
+   */
+  async extractBackup(archivePath: string, destinationDir: string = this.outputDir): Promise<string> {
+    await fs.mkdir(destinationDir, { recursive: true });
+
+    const codec = await detectCompressionCodec(archivePath);
+    if (codec === 'zip') {
+      return this.extractZipBackup(archivePath, destinationDir);
+    }
+
+    let dumpPath = archivePath;
+    if (codec !== 'none') {
+      const dumpName = basename(archivePath).replace(/\.(gz|zst)$/, '');
+      if (dumpName === basename(archivePath)) {
+        throw new Error(`${basename(archivePath)} is ${codec}-compressed but its name does not end in .${getCodecExtension(codec)}`);
+      }
+      dumpPath = join(destinationDir, dumpName);
+      await decompressFile(archivePath, dumpPath, codec);
+    }
+
+    // Directory dumps travel as "<name>.dir.tar"
+    if (dumpPath.endsWith('.dir.tar')) {
+      const tarPath = dumpPath;
+      await unpackTar(tarPath, destinationDir);
+      dumpPath = join(destinationDir, basename(tarPath, '.tar'));
+      if (tarPath !== archivePath) {
+        await fs.rm(tarPath, { force: true });
+      }
+    }
+
+    if (!getDumpFormat(basename(dumpPath))) {
+      throw new Error(`No SQL file or pg_dump archive found in backup ${basename(archivePath)}`);
+    }
+    console.log(`📦 Extracted ${basename(dumpPath)} from ${basename(archivePath)}`);
+
+    return dumpPath;
+  }
+
+  /**
+   * Extract the dump file or directory from a ZIP backup
+   */
+  private async extractZipBackup(zipFilePath: string, destinationDir: string): Promise<string> {
+    const zip = new AdmZip(zipFilePath);
+    const entries = zip.getEntries().filter(entry => !entry.isDirectory);
+    const dumpName = entries.map(entry => entry.entryName.split('/')[0]).find(name => getDumpFormat(name));
+    if (!dumpName) {
+      throw new Error(`No SQL file or pg_dump archive found in backup archive ${zipFilePath}`);
+    }
+
+    // A directory dump keeps its folder, a single file is extracted flat
+    const isDirectory = getDumpFormat(dumpName) === 'directory';
+    for (const entry of entries.filter(entry => isDirectory ? entry.entryName.startsWith(`${dumpName}/`) : entry.entryName === dumpName)) {
+      zip.extractEntryTo(entry, destinationDir, isDirectory, true);
+    }
+    console.log(`📦 Extracted ${dumpName} from ${basename(zipFilePath)}`);
+
+    return join(destinationDir, dumpName);
+  }
+
+  /**
+   * Replay a backup into the database behind a connection URI: plain SQL with psql, archives with pg_restore
+   */
+  async restoreBackup(
+    dumpPath: string,
+    connectionUri: string,
+    options: { stopOnError?: boolean } = {}
+  ): Promise<{ success: boolean; error?: string; duration?: number }> {
+    const stopOnError = options.stopOnError ?? true;
+    const startTime = Date.now();
+    const config = parse(connectionUri);
+
+    if (!config.host || !config.database || !config.user) {
+      return {
+        success: false,
+        error: 'Invalid connection URI - missing required fields'
+      };
+    }
+
+    const format = getDumpFormat(basename(dumpPath)) || 'plain';
+    console.log(`♻️  Restoring ${basename(dumpPath)} into ${config.host}/${config.database}...`);
+
+    const connectionArgs = [
+      `--host=${config.host}`,
+      `--port=${config.port || 5432}`,
+      `--username=${config.user}`,
+      `--dbname=${config.database}`,
+      '--no-password'
+    ];
+
+    // Abort on the first failing statement instead of half-restoring
+    const tool = getRestoreTool(format);
+    const args = tool === 'psql'
+      ? [
+        ...connectionArgs,
+        '--quiet',
+        ...(stopOnError ? ['--set=ON_ERROR_STOP=1', '--single-transaction'] : []),
+        `--file=${dumpPath}`
+      ]
+      : [
+        ...connectionArgs,
+        `--format=${format}`,
+        ...(stopOnError ? ['--exit-on-error', '--single-transaction'] : []),
+        dumpPath
+      ];
+
+    const env = this.buildPgEnv(config.password, connectionUri);
+
+    const result = await this.executePgTool(tool, args, env);
+    const duration = Date.now() - startTime;
+
+    if (result.success) {
+      console.log(`✅ Restore completed in ${duration}ms`);
+    } else {
+      console.error(`❌ Restore failed: ${result.error}`);
+    }
+
+    return { ...result, duration };
+  }
+
+  /**
+   * Create backups for multiple resources, several at a time when the concurrency allows it.
+   * Results are returned in the order of the resources, whatever order the dumps finish in.
+   * Options can be given per resource, e.g. for per-project dump settings.
    */
   async createMultipleBackups(
     resources: DatabaseActivity[], 
-    options: BackupOptions = {}
+    options: BackupOptions | ((resource: DatabaseActivity) => BackupOptions) = {},
+    concurrency: BackupConcurrency = {}
   ): Promise<BackupResult[]> {
-    console.log(`🚀 Starting backup process for ${resources.length} resources...`);
+    const dumps = concurrency.dumps || 1;
+    const dumpsPerProject = concurrency.dumpsPerProject || 1;
+    console.log(`🚀 Starting backup process for ${resources.length} resources (${dumps} at a time, ${dumpsPerProject} per project)...`);
     
     await this.initialize();
     
-    const results: BackupResult[] = [];
+    // Take the project slot first so a dump waiting on its project doesn't block the global pool
+    const dumpSlots = new Semaphore(dumps);
+    const projectSlots = new KeyedSemaphore(dumpsPerProject);
     
-    for (const resource of resources) {
+    const results = await Promise.all(resources.map(async resource => {
+      let result: BackupResult;
       try {
-        const result = await this.createBackup(resource, options);
-        results.push(result);
-        
-        // Add a small delay between backups to avoid overwhelming the database
-        await this.sleep(1000);
+        result = await projectSlots.run(resource.project_id, () =>
+          dumpSlots.run(() => this.createBackup(resource, typeof options === 'function' ? options(resource) : options))
+        );
       } catch (error) {
-        console.error(`❌ Unexpected error backing up ${resource.project_name}/${resource.branch_name}:`, error);
-        results.push({
+        console.error(`❌ Unexpected error backing up ${resource.project_name}/${resource.branch_name}/${resource.database_name}:`, error);
+        result = {
+          projectName: resource.project_name,
+          branchName: resource.branch_name,
+          databaseName: resource.database_name,
           success: false,
           error: error instanceof Error ? error.message : String(error)
-        });
+        };
       }
-    }
+      
+      // Runs outside the dump slots, so e.g. the upload of one backup overlaps with the next dump
+      if (concurrency.afterBackup) {
+        await concurrency.afterBackup(result, resource);
+      }
+      return result;
+    }));
 
     const successCount = results.filter(r => r.success).length;
     const failureCount = results.length - successCount;
@@ -345,35 +973,75 @@ export class DatabaseBackupService {
   }
 
   /**
-   * Clean up old backup files
+   * Clean up old backup files and return their names; files for which `isExempt` returns true are left to their own retention policy.
+   * A dry run returns the names without deleting anything.
    */
-  async cleanupOldBackups(retentionDays: number = 7): Promise<void> {
+  async cleanupOldBackups(retentionDays: number = 7, isExempt?: (fileName: string) => boolean, options: CleanupOptions = {}): Promise<string[]> {
+    const deleted: string[] = [];
+
     try {
-      console.log(`🧹 Cleaning up backups older than ${retentionDays} days...`);
+      console.log(`🧹 ${options.dryRun ? 'Checking' : 'Cleaning up'} backups older than ${retentionDays} days...`);
       
       const files = await fs.readdir(this.outputDir);
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
 
-      let deletedCount = 0;
-
       for (const file of files) {
-        if (file.endsWith('.dump') || file.endsWith('.sql') || file.endsWith('.zip')) {
+        if (isExempt?.(file)) {
+          continue;
+        }
+        if (getDumpFormat(file) || /\.(zip|gz|zst|gpg|json)$/.test(file)) {
           const filePath = join(this.outputDir, file);
           const stats = await fs.stat(filePath);
           
           if (stats.mtime < cutoffDate) {
-            await fs.unlink(filePath);
-            deletedCount++;
-            console.log(`🗑️  Deleted old backup: ${file}`);
+            if (!options.dryRun) {
+              await fs.rm(filePath, { recursive: true, force: true }); // Directory-format dumps are folders
+            }
+            deleted.push(file);
+            console.log(options.dryRun ? `🔎 Would delete: ${file}` : `🗑️  Deleted old backup: ${file}`);
           }
         }
       }
 
-      console.log(`✅ Cleanup completed. Deleted ${deletedCount} old backup files.`);
+      console.log(options.dryRun
+        ? `✅ Dry run: ${deleted.length} old backup files would be deleted.`
+        : `✅ Cleanup completed. Deleted ${deleted.length} old backup files.`);
+    } catch (error) {
+      console.error('❌ Error during cleanup:', error);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Delete local backup files according to a grandfather-father-son retention policy and return their names
+   */
+  async applyRetentionPolicy(policy: RetentionPolicy | RetentionPolicyResolver, options: CleanupOptions = {}): Promise<string[]> {
+    const deleted: string[] = [];
+
+    try {
+      console.log(`🧹 ${options.dryRun ? 'Checking' : 'Applying'} retention policy (${describeRetentionPolicy(policy)}) to local backups...`);
+
+      const files = (await fs.readdir(this.outputDir)).map(name => ({ name }));
+      const toDelete = selectBackupsToDelete(files, policy, options.pending);
+
+      for (const file of toDelete) {
+        if (!options.dryRun) {
+          await fs.rm(join(this.outputDir, file.name), { recursive: true, force: true });
+        }
+        deleted.push(file.name);
+        console.log(options.dryRun ? `🔎 Would delete: ${file.name}` : `🗑️  Deleted old backup: ${file.name}`);
+      }
+
+      console.log(options.dryRun
+        ? `✅ Dry run: ${deleted.length} old backup files would be deleted.`
+        : `✅ Cleanup completed. Deleted ${deleted.length} old backup files.`);
     } catch (error) {
       console.error('❌ Error during cleanup:', error);
     }
+
+    return deleted;
   }
 
   /**
@@ -387,19 +1055,33 @@ export class DatabaseBackupService {
   }
 
   /**
-   * Utility function for delays
+   * Check if pg_dump is available
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  async checkPgDumpAvailability(): Promise<boolean> {
+    return this.checkPgToolAvailability('pg_dump');
   }
 
   /**
-   * Check if pg_dump is available
+   * Check if psql is available
    */
-  async checkPgDumpAvailability(): Promise<boolean> {
+  async checkPsqlAvailability(): Promise<boolean> {
+    return this.checkPgToolAvailability('psql');
+  }
+
+  /**
+   * Check if pg_restore is available
+   */
+  async checkPgRestoreAvailability(): Promise<boolean> {
+    return this.checkPgToolAvailability('pg_restore');
+  }
+
+  /**
+   * Check if a PostgreSQL client tool can be started
+   */
+  private async checkPgToolAvailability(tool: string): Promise<boolean> {
     return new Promise((resolve) => {
-      const pgDumpPath = this.getPgDumpPath();
-      const process = spawn(pgDumpPath, ['--version'], { stdio: 'pipe' });
+      const toolPath = this.getPgToolPath(tool);
+      const process = spawn(toolPath, ['--version'], { stdio: 'pipe' });
       
       process.on('close', (code) => {
         resolve(code === 0);
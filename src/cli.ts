@@ -0,0 +1,370 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { BackupCatalogService } from './backup-catalog';
+import { BackupGroup, groupBackupFiles } from './backup-listing';
+import { getDriveScope } from './drive-folders';
+import { GoogleDriveOAuthService } from './google-drive-oauth';
+import { loginWithLoopback, saveEnvValue } from './google-oauth-login';
+import {
+  NeonBackupOrchestrator,
+  createStorageProvider,
+  getBackupConfiguration,
+  getConfigFile,
+  getInput,
+  getStorageConfiguration,
+  parsePort
+} from './index';
+import { DatabaseActivity } from './neon-discovery';
+import { restoreFromInputs } from './restore';
+import { printVerification, verifyCatalog } from './verify';
+
+/**
+ * A command line flag. Most flags stand for an environment variable (action input) and simply set it,
+ * so a flag takes precedence over the environment, which takes precedence over the config file.
+ */
+interface FlagSpec {
+  input?: string;
+  boolean?: boolean;
+  value?: string; // Placeholder shown in the help text
+  description: string;
+}
+
+type FlagValues = Record<string, string | boolean | undefined>;
+
+interface Command {
+  description: string;
+  flags: Record<string, FlagSpec>;
+  run(flags: FlagValues): Promise<unknown>; // Prints a human-readable summary and resolves to the --json result
+}
+
+const COMMON_FLAGS: Record<string, FlagSpec> = {
+  config: { input: 'CONFIG_FILE', value: 'file', description: 'YAML or JSON config file' },
+  'output-dir': { input: 'OUTPUT_DIR', value: 'dir', description: 'Local working directory (default: ./backups)' },
+  storage: { input: 'STORAGE_BACKEND', value: 'backend', description: 'google-drive, local or s3' },
+  json: { boolean: true, description: 'Print the result as JSON on stdout; logs go to stderr' },
+  help: { boolean: true, description: 'Show help' }
+};
+
+const DISCOVERY_FLAGS: Record<string, FlagSpec> = {
+  'activity-window': { input: 'ACTIVITY_WINDOW', value: 'window', description: 'e.g. 24h, 7d or since-last-backup' },
+  'include-projects': { input: 'INCLUDE_PROJECTS', value: 'patterns', description: 'Project name or ID patterns to back up' },
+  'exclude-projects': { input: 'EXCLUDE_PROJECTS', value: 'patterns', description: 'Project name or ID patterns to skip' },
+  'include-branches': { input: 'INCLUDE_BRANCHES', value: 'patterns', description: 'Branch name patterns to back up' },
+  'exclude-branches': { input: 'EXCLUDE_BRANCHES', value: 'patterns', description: 'Branch name patterns to skip' },
+  'include-databases': { input: 'INCLUDE_DATABASES', value: 'patterns', description: 'Database name patterns to back up' },
+  'exclude-databases': { input: 'EXCLUDE_DATABASES', value: 'patterns', description: 'Database name patterns to skip' },
+  force: { input: 'FORCE_BACKUP', value: 'selectors', description: 'project:branch[:database] selectors backed up regardless of activity' },
+  'schedule-tier': { input: 'SCHEDULE_TIER', value: 'tier', description: 'Skip branches assigned to another schedule tier' }
+};
+
+const COMMANDS: Record<string, Command> = {
+  backup: {
+    description: 'Discover active databases, back them up, upload and clean up (the GitHub Action flow)',
+    flags: {
+      ...DISCOVERY_FLAGS,
+      mode: { input: 'BACKUP_MODE', value: 'mode', description: 'full, schema-only or data-only' },
+      format: { input: 'DUMP_FORMAT', value: 'format', description: 'plain, custom, directory or tar' },
+      compression: { input: 'COMPRESSION_CODEC', value: 'codec', description: 'zip, gzip, zstd or none' },
+      'dry-run': { input: 'DRY_RUN', boolean: true, description: 'Only print the backups and deletions the run would make' }
+    },
+    run: async () => {
+      const config = await getBackupConfiguration();
+      const orchestrator = new NeonBackupOrchestrator(config);
+      return config.dryRun ? orchestrator.planBackupProcess() : orchestrator.runBackupProcess();
+    }
+  },
+
+  discover: {
+    description: 'List the databases a backup run would select, and the ones it would skip',
+    flags: DISCOVERY_FLAGS,
+    run: async () => {
+      const orchestrator = new NeonBackupOrchestrator(await getBackupConfiguration());
+      const { resources, skipped } = await orchestrator.discoverResources();
+
+      // Connection URIs carry passwords
+      const listed = resources.map(({ connection_uri, ...resource }): Omit<DatabaseActivity, 'connection_uri'> => resource);
+
+      console.log(`\n🔍 ${listed.length} databases would be backed up:`);
+      for (const resource of listed) {
+        console.log(`   ➕ ${resource.project_name}/${resource.branch_name}/${resource.database_name} (${resource.backup_reason || 'active'})${resource.last_activity_date ? `, last activity ${resource.last_activity_date}` : ''}`);
+      }
+      console.log(`⏭️  ${skipped.length} skipped:`);
+      for (const skip of skipped) {
+        const source = [skip.project_name, skip.branch_name, skip.database_name].filter(Boolean).join('/');
+        console.log(`   ➖ ${source} (${skip.kind}): ${skip.reason}`);
+      }
+
+      return { resources: listed, skipped };
+    }
+  },
+
+  list: {
+    description: 'List the backups in storage, grouped by project and branch',
+    flags: {},
+    run: async () => {
+      const configFile = await getConfigFile();
+      const storageProvider = createStorageProvider(getStorageConfiguration(configFile));
+      await storageProvider.initialize();
+
+      const files = await storageProvider.listBackupFiles();
+      const catalog = new BackupCatalogService(storageProvider, getInput('OUTPUT_DIR', false) || configFile.outputDir || './backups');
+      const groups = groupBackupFiles(files, await catalog.getEntries(files));
+
+      printBackupGroups(groups, storageProvider.name);
+      return groups;
+    }
+  },
+
+  prune: {
+    description: 'Apply the cleanup rules (retention policy or age) without creating backups',
+    flags: {
+      retention: { input: 'RETENTION_POLICY', value: 'policy', description: "Retention policy such as '7d,4w,12m'" },
+      'retention-days': { input: 'CLEANUP_RETENTION_DAYS', value: 'days', description: 'Age-based cleanup when no retention policy is set' },
+      'dry-run': { boolean: true, description: 'Only print the files that would be deleted' }
+    },
+    run: async flags => {
+      const orchestrator = new NeonBackupOrchestrator(await getBackupConfiguration(false));
+      const dryRun = !!flags['dry-run'];
+      const deletions = await orchestrator.pruneBackups({ dryRun });
+
+      console.log(`\n${dryRun ? '🔎 Would delete' : '🗑️  Deleted'} ${deletions.storage.length} stored and ${deletions.local.length} local files`);
+      return {
+        dryRun,
+        local: deletions.local,
+        storage: deletions.storage.map(file => ({ fileId: file.id, fileName: file.name, createdTime: file.createdTime }))
+      };
+    }
+  },
+
+  verify: {
+    description: 'Check every file in the backup catalog against storage',
+    flags: {
+      download: { input: 'VERIFY_DOWNLOAD', boolean: true, description: 'Re-download every file and compare its SHA-256' },
+      head: { input: 'VERIFY_CATALOG_HEAD', value: 'hash', description: 'A catalogHead from an earlier run that must still be in the catalog' }
+    },
+    run: async () => {
+      const result = await verifyCatalog();
+      printVerification(result);
+      if (result.issues.length > 0) {
+        process.exitCode = 1;
+      }
+      return result;
+    }
+  },
+
+  restore: {
+    description: 'Download a backup and restore it into a database or a new Neon branch',
+    flags: {
+      project: { input: 'RESTORE_PROJECT', value: 'name', description: 'Project of the backup' },
+      branch: { input: 'RESTORE_BRANCH', value: 'name', description: 'Branch of the backup' },
+      database: { input: 'RESTORE_DATABASE', value: 'name', description: 'Database of the backup, when the branch has several' },
+      timestamp: { input: 'RESTORE_TIMESTAMP', value: 'prefix', description: "Backup timestamp prefix such as '2024-05-01'; newest if omitted" },
+      mode: { input: 'RESTORE_MODE', value: 'mode', description: 'full, schema-only or data-only' },
+      'target-uri': { input: 'RESTORE_TARGET_URI', value: 'uri', description: 'Restore into this existing database' },
+      'target-project': { input: 'RESTORE_PROJECT_ID', value: 'id', description: 'Project to create the new branch in' },
+      'new-branch': { input: 'RESTORE_NEW_BRANCH', value: 'name', description: 'Restore into a new branch with this name' },
+      'new-database': { input: 'RESTORE_NEW_DATABASE', value: 'name', description: "Database created on the new branch (default: 'restored')" },
+      'work-dir': { input: 'RESTORE_WORK_DIR', value: 'dir', description: 'Directory for the download (default: ./restores)' }
+    },
+    run: async () => {
+      const result = await restoreFromInputs();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      console.log(`\n✅ Restored ${result.backup!.fileName} into ${result.target} in ${result.duration}ms`);
+      return result;
+    }
+  },
+
+  auth: {
+    description: 'Sign in to Google in a browser and obtain the GOOGLE_REFRESH_TOKEN for OAuth uploads',
+    flags: {
+      'client-id': { input: 'GOOGLE_CLIENT_ID', value: 'id', description: 'OAuth client ID of a Desktop app client' },
+      'client-secret': { input: 'GOOGLE_CLIENT_SECRET', value: 'secret', description: 'OAuth client secret' },
+      scope: { value: 'scope', description: 'drive.file, or drive for Shared Drives and parent folders (default: from the storage settings)' },
+      port: { value: 'port', description: 'Loopback port for the redirect (default: any free port)' },
+      save: { value: 'file', description: 'Store the token as GOOGLE_REFRESH_TOKEN in this .env file instead of printing it' }
+    },
+    run: async flags => {
+      const storage = getStorageConfiguration(await getConfigFile());
+      const clientId = getInput('GOOGLE_CLIENT_ID', true);
+      const clientSecret = getInput('GOOGLE_CLIENT_SECRET', true);
+      const scope = flags.scope
+        ? parseDriveScope(String(flags.scope))
+        : getDriveScope(storage.googleDriveParentFolderId, storage.googleDriveSharedDriveId);
+
+      console.log(`🔑 Requesting access to ${scope}`);
+      const { refreshToken, scope: granted } = await loginWithLoopback({
+        clientId,
+        clientSecret,
+        scope,
+        port: flags.port ? parsePort('--port', String(flags.port)) : undefined,
+        onAuthorizeUrl: url => {
+          console.log('\n🌐 Open this URL in a browser, sign in and allow access:\n');
+          console.log(`   ${url}\n`);
+          console.log('⏳ Waiting for Google to redirect back...');
+        }
+      });
+      console.log('✅ Authorization received');
+
+      // Make sure the token works before anyone stores it as a secret
+      const drive = new GoogleDriveOAuthService({ clientId, clientSecret, refreshToken, endpoint: storage.googleDriveEndpoint });
+      if (!await drive.testConnection()) {
+        throw new Error('The new refresh token was issued but could not access Google Drive');
+      }
+      console.log('✅ Google Drive access confirmed');
+
+      const savedTo = flags.save ? String(flags.save) : undefined;
+      if (savedTo) {
+        await saveEnvValue(savedTo, 'GOOGLE_REFRESH_TOKEN', refreshToken);
+        console.log(`💾 GOOGLE_REFRESH_TOKEN saved to ${savedTo}`);
+      } else {
+        console.log(`\nGOOGLE_REFRESH_TOKEN=${refreshToken}\n`);
+        console.log('🔒 Store it as a secret; it grants lasting access to your Google Drive');
+      }
+
+      return { refreshToken, scope: granted, savedTo };
+    }
+  }
+};
+
+/**
+ * Command line entry point: `neon-backup <command> [flags]`
+ */
+async function cliMain(argv: string[] = process.argv.slice(2)): Promise<void> {
+  const [name, ...args] = argv;
+  const command = name ? COMMANDS[name] : undefined;
+
+  if (!command) {
+    if (name && name !== 'help' && name !== '--help' && name !== '-h') {
+      console.error(`❌ Unknown command '${name}'\n`);
+      process.exitCode = 1;
+    }
+    console.log(formatUsage());
+    return;
+  }
+
+  const specs = { ...COMMON_FLAGS, ...command.flags };
+  let flags: FlagValues;
+  try {
+    flags = parseArgs({
+      args,
+      options: Object.fromEntries(Object.entries(specs).map(([flag, spec]) => [flag, { type: spec.boolean ? 'boolean' : 'string' }])),
+      strict: true,
+      allowPositionals: false
+    }).values as FlagValues;
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}\n`);
+    console.error(formatCommandHelp(name, command));
+    process.exit(1);
+  }
+
+  if (flags.help) {
+    console.log(formatCommandHelp(name, command));
+    return;
+  }
+
+  for (const [flag, value] of Object.entries(flags)) {
+    const input = specs[flag]?.input;
+    if (input && value !== undefined) {
+      process.env[input] = String(value);
+    }
+  }
+
+  // stdout is reserved for the JSON result, so scripts can pipe it
+  const json = !!flags.json;
+  if (json) {
+    console.log = console.error;
+    console.info = console.error;
+  }
+
+  try {
+    const result = await command.run(flags);
+    if (json) {
+      process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ ${name} failed: ${message}`);
+    if (json) {
+      process.stdout.write(JSON.stringify({ error: message }, null, 2) + '\n');
+    }
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Full scope URL for a short Drive scope name
+ */
+function parseDriveScope(value: string): string {
+  const scopes = ['drive.file', 'drive'];
+  const name = value.replace(/^https:\/\/www\.googleapis\.com\/auth\//, '');
+  if (!scopes.includes(name)) {
+    throw new Error(`--scope must be one of ${scopes.join(', ')}, got '${value}'`);
+  }
+  return `https://www.googleapis.com/auth/${name}`;
+}
+
+function printBackupGroups(groups: BackupGroup[], storageName: string): void {
+  const total = groups.reduce((count, group) => count + group.backups.length, 0);
+  console.log(`\n📦 ${total} backups in ${storageName}`);
+
+  for (const group of groups) {
+    console.log(`\n🗄️  ${group.source} (${group.backups.length})`);
+    for (const backup of group.backups) {
+      const details = [
+        backup.databaseName,
+        backup.mode !== 'full' ? backup.mode : undefined,
+        backup.sizeBytes !== undefined ? formatFileSize(backup.sizeBytes) : undefined
+      ].filter(Boolean).join(', ');
+      console.log(`   ${backup.timestamp}  ${backup.folder ? `${backup.folder}/` : ''}${backup.fileName}${backup.encrypted ? ' 🔐' : ''}${details ? ` (${details})` : ''}`);
+    }
+  }
+}
+
+function formatUsage(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map(name => name.length));
+  return [
+    'Usage: neon-backup <command> [flags]',
+    '',
+    'Commands:',
+    ...Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(width)}  ${command.description}`),
+    '',
+    "Run 'neon-backup <command> --help' for the flags of a command. Settings not given as flags",
+    'are read from the environment, a .env file and the config file, as in the GitHub Action.'
+  ].join('\n');
+}
+
+function formatCommandHelp(name: string, command: Command): string {
+  const flags = Object.entries({ ...command.flags, ...COMMON_FLAGS }).map(([flag, spec]) => [
+    `--${flag}${spec.value ? ` <${spec.value}>` : ''}`,
+    `${spec.description}${spec.input ? ` [${spec.input}]` : ''}`
+  ]);
+  const width = Math.max(...flags.map(([usage]) => usage.length));
+  return [
+    `Usage: neon-backup ${name} [flags]`,
+    '',
+    command.description,
+    '',
+    'Flags:',
+    ...flags.map(([usage, description]) => `  ${usage.padEnd(width)}  ${description}`)
+  ].join('\n');
+}
+
+function formatFileSize(bytes: number): string {
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  if (bytes === 0) return '0 Bytes';
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+}
+
+// Only run the CLI if this file is executed directly
+if (require.main === module) {
+  cliMain().catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export default cliMain;
@@ -0,0 +1,266 @@
+import { spawn } from 'child_process';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { dirname, relative, resolve, sep } from 'path';
+import { Duplex, PassThrough, Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as zlib from 'zlib';
+import archiver from 'archiver';
+import * as tar from 'tar-stream';
+
+/**
+ * How a dump is compressed before upload. ZIP keeps the dump's own name inside the archive,
+ * the other codecs compress a single stream and add their extension to the dump's name.
+ */
+export type CompressionCodec = 'zip' | 'gzip' | 'zstd' | 'none';
+
+export const COMPRESSION_CODECS: CompressionCodec[] = ['zip', 'gzip', 'zstd', 'none'];
+
+export interface CompressionSettings {
+  codec?: CompressionCodec; // Default: zip
+  level?: number; // Default depends on the codec, see COMPRESSION_LEVELS
+}
+
+/**
+ * Valid and default levels per codec
+ */
+export const COMPRESSION_LEVELS: Record<CompressionCodec, { min: number; max: number; default: number }> = {
+  zip: { min: 0, max: 9, default: 6 },
+  gzip: { min: 1, max: 9, default: 6 },
+  zstd: { min: 1, max: 19, default: 3 },
+  none: { min: 0, max: 0, default: 0 }
+};
+
+const CODEC_EXTENSIONS: Record<CompressionCodec, string> = {
+  zip: 'zip',
+  gzip: 'gz',
+  zstd: 'zst',
+  none: ''
+};
+
+// Leading bytes of each compressed format
+const MAGIC_NUMBERS: [Exclude<CompressionCodec, 'none'>, Buffer][] = [
+  ['zip', Buffer.from([0x50, 0x4b, 0x03, 0x04])],
+  ['gzip', Buffer.from([0x1f, 0x8b])],
+  ['zstd', Buffer.from([0x28, 0xb5, 0x2f, 0xfd])]
+];
+
+/**
+ * A compressed stream whose end is deferred until `finish` is called,
+ * so a source that fails halfway never produces a valid-looking archive
+ */
+export interface CompressedStream {
+  stream: Readable;
+  finish(): void; // The source is complete; end the compressed stream once all of it has been consumed
+}
+
+/**
+ * Parse a codec setting
+ */
+export function parseCompressionCodec(name: string, value: string): CompressionCodec {
+  if (!COMPRESSION_CODECS.includes(value as CompressionCodec)) {
+    throw new Error(`${name} must be one of ${COMPRESSION_CODECS.join(', ')}, got '${value}'`);
+  }
+  return value as CompressionCodec;
+}
+
+/**
+ * Codec and level to use, checking the level against the codec's range
+ */
+export function resolveCompression(settings: CompressionSettings = {}): { codec: CompressionCodec; level: number } {
+  const codec = settings.codec || 'zip';
+  const { min, max, default: defaultLevel } = COMPRESSION_LEVELS[codec];
+  const level = settings.level ?? defaultLevel;
+
+  if (codec === 'none') {
+    return { codec, level: 0 };
+  }
+  if (!Number.isInteger(level) || level < min || level > max) {
+    throw new Error(`${codec} compression level must be a whole number from ${min} to ${max}, got ${level}`);
+  }
+  return { codec, level };
+}
+
+/**
+ * File extension a codec adds, without the dot; empty for uncompressed files
+ */
+export function getCodecExtension(codec: CompressionCodec): string {
+  return CODEC_EXTENSIONS[codec];
+}
+
+/**
+ * Codec of a stored backup, judging by its name; encrypted files are judged by the name underneath
+ */
+export function getCompressionCodec(fileName: string): CompressionCodec {
+  const name = fileName.replace(/\.gpg$/, '');
+  const codec = COMPRESSION_CODECS.find(codec => codec !== 'none' && name.endsWith(`.${CODEC_EXTENSIONS[codec]}`));
+  return codec || 'none';
+}
+
+/**
+ * Codec of a file, judging by its first bytes
+ */
+export async function detectCompressionCodec(filePath: string): Promise<CompressionCodec> {
+  const file = await fs.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(4);
+    const { bytesRead } = await file.read(header, 0, header.length, 0);
+    const match = MAGIC_NUMBERS.find(([, magic]) => bytesRead >= magic.length && header.subarray(0, magic.length).equals(magic));
+    return match ? match[0] : 'none';
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Stream compressor for the single-stream codecs
+ */
+export function createCompressor(codec: 'gzip' | 'zstd', level: number): Duplex {
+  if (codec === 'gzip') {
+    return zlib.createGzip({ level });
+  }
+  if (typeof zlib.createZstdCompress === 'function') {
+    return zlib.createZstdCompress({ params: { [zlib.constants.ZSTD_c_compressionLevel]: level } });
+  }
+  // Node.js before 22.15 has no zstd, fall back to the zstd command line tool
+  return spawnFilter('zstd', [`-${level}`, '-T0', '-q', '-c']);
+}
+
+/**
+ * Stream decompressor for the single-stream codecs
+ */
+export function createDecompressor(codec: 'gzip' | 'zstd'): Duplex {
+  if (codec === 'gzip') {
+    return zlib.createGunzip();
+  }
+  if (typeof zlib.createZstdDecompress === 'function') {
+    return zlib.createZstdDecompress();
+  }
+  return spawnFilter('zstd', ['-d', '-q', '-c']);
+}
+
+/**
+ * Compress a stream. ZIP archives store it as `entryName`; the other codecs only transform the bytes.
+ */
+export function compressStream(source: Readable, entryName: string, settings: CompressionSettings = {}): CompressedStream {
+  const { codec, level } = resolveCompression(settings);
+
+  if (codec === 'zip') {
+    const archive = archiver('zip', { zlib: { level } });
+    archive.append(source, { name: entryName });
+    return { stream: archive, finish: () => archive.finalize() };
+  }
+
+  const target = codec === 'none' ? new PassThrough() : createCompressor(codec, level);
+  source.on('error', error => target.destroy(error));
+  source.pipe(target, { end: false });
+
+  return {
+    stream: target,
+    finish: () => {
+      if (source.readableEnded) {
+        target.end();
+      } else {
+        source.once('end', () => target.end());
+      }
+    }
+  };
+}
+
+/**
+ * Write a compressed copy of a file or directory. A directory is stored as a folder in a ZIP archive,
+ * and as a tar archive with the other codecs. `observer` sees the compressed bytes on their way to disk.
+ */
+export async function compressPath(
+  sourcePath: string,
+  targetPath: string,
+  entryName: string,
+  settings: CompressionSettings = {},
+  observer: Transform = new PassThrough()
+): Promise<void> {
+  const { codec, level } = resolveCompression(settings);
+  const isDirectory = (await fs.stat(sourcePath)).isDirectory();
+
+  if (codec === 'zip' && isDirectory) {
+    const archive = archiver('zip', { zlib: { level } });
+    archive.directory(sourcePath, entryName);
+    archive.finalize();
+    await pipeline(archive, observer, createWriteStream(targetPath));
+    return;
+  }
+
+  let source: Readable;
+  if (isDirectory) {
+    const tarArchive = archiver('tar');
+    tarArchive.directory(sourcePath, entryName);
+    tarArchive.finalize();
+    source = tarArchive;
+  } else {
+    source = createReadStream(sourcePath);
+  }
+
+  const compressed = compressStream(source, entryName, { codec, level });
+  compressed.finish();
+  await pipeline(compressed.stream, observer, createWriteStream(targetPath));
+}
+
+/**
+ * Decompress a gzip or zstd file
+ */
+export async function decompressFile(sourcePath: string, targetPath: string, codec: 'gzip' | 'zstd'): Promise<void> {
+  await pipeline(createReadStream(sourcePath), createDecompressor(codec), createWriteStream(targetPath));
+}
+
+/**
+ * Unpack a tar archive into a directory; entries that would land outside it are refused
+ */
+export async function unpackTar(tarPath: string, destinationDir: string): Promise<void> {
+  const root = resolve(destinationDir);
+  const extract = tar.extract();
+  const done = pipeline(createReadStream(tarPath), extract);
+
+  for await (const entry of extract) {
+    const target = resolve(root, entry.header.name);
+    const inside = relative(root, target);
+    if (inside.startsWith('..') || inside.split(sep).includes('..')) {
+      entry.destroy();
+      throw new Error(`Refusing to unpack ${entry.header.name} outside ${destinationDir}`);
+    }
+
+    if (entry.header.type === 'directory') {
+      await fs.mkdir(target, { recursive: true });
+      entry.resume();
+    } else if (entry.header.type === 'file') {
+      await fs.mkdir(dirname(target), { recursive: true });
+      await pipeline(entry, createWriteStream(target));
+    } else {
+      entry.resume(); // pg_dump archives contain no links or devices
+    }
+  }
+
+  await done;
+}
+
+/**
+ * Run a command line tool as a stream transform from stdin to stdout
+ */
+function spawnFilter(command: string, args: string[]): Duplex {
+  const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+  const filter = Duplex.from({ writable: child.stdin, readable: child.stdout });
+
+  let stderr = '';
+  child.stderr.on('data', data => {
+    stderr += data.toString();
+  });
+  child.on('error', error => {
+    filter.destroy(error.message.includes('ENOENT')
+      ? new Error(`${command} not found. Please install it or run on Node.js 22.15 or newer`)
+      : error);
+  });
+  child.on('close', code => {
+    if (code !== 0) {
+      filter.destroy(new Error(`${command} exited with code ${code}. stderr: ${stderr}`));
+    }
+  });
+
+  return filter;
+}
@@ -0,0 +1,73 @@
+/**
+ * Limits how many tasks run at the same time; waiting tasks start in the order they were queued
+ */
+export class Semaphore {
+  private limit: number;
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, limit);
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next task
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * One semaphore per key, e.g. per Neon project
+ */
+export class KeyedSemaphore {
+  private limit: number;
+  private semaphores = new Map<string, Semaphore>();
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    let semaphore = this.semaphores.get(key);
+    if (!semaphore) {
+      semaphore = new Semaphore(this.limit);
+      this.semaphores.set(key, semaphore);
+    }
+    return semaphore.run(task);
+  }
+}
+
+/**
+ * Map items with at most `limit` calls in flight; results keep the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const semaphore = new Semaphore(limit);
+  return Promise.all(items.map((item, index) => semaphore.run(() => task(item, index))));
+}
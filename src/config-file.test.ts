@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfigFile, validateConfigFile } from './config-file';
+import { getBackupConfiguration } from './index';
+
+describe('validateConfigFile', () => {
+  it('accepts a complete config file', () => {
+    const config = validateConfigFile({
+      activityWindow: '48h',
+      storage: { backend: 's3', s3: { bucket: 'backups', region: 'eu-west-1' } },
+      cleanup: { retentionPolicy: '7d,4w', retentionPolicyByMode: { 'schema-only': '30d' } },
+      compression: { codec: 'gzip', level: 6 },
+      overrides: [{ project: 'shop', branch: 'release-*', retention: '14d,12m' }]
+    });
+
+    expect(config.storage).toMatchObject({ backend: 's3', s3: { bucket: 'backups', region: 'eu-west-1' } });
+    expect(config.cleanup).toMatchObject({ retentionPolicy: '7d,4w', retentionPolicyByMode: { 'schema-only': '30d' } });
+    expect(config.overrides).toEqual([expect.objectContaining({ project: 'shop', branch: 'release-*', retention: '14d,12m' })]);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(() => validateConfigFile(['storage'])).toThrow('the config file must contain an object');
+  });
+
+  it('names unknown keys and lists the allowed ones', () => {
+    expect(() => validateConfigFile({ outputDir: './backups', retentionDays: 7 }))
+      .toThrow(/^Unknown key in config file: retentionDays\. Allowed: activityWindow, outputDir, storage/);
+    expect(() => validateConfigFile({ storage: { backend: 'local', bucket: 'x', region: 'y' } }))
+      .toThrow('Unknown keys in storage: bucket, region. Allowed: backend, localDirectory, folderTemplate, googleDrive, s3');
+    expect(() => validateConfigFile({ overrides: [{ project: 'shop', retentionPolicy: '7d' }] }))
+      .toThrow(/^Unknown key in overrides\[0\]: retentionPolicy\./);
+  });
+
+  it('names the offending key of a value with the wrong type', () => {
+    expect(() => validateConfigFile({ streamingUploads: 'yes' })).toThrow('streamingUploads must be true or false, got "yes"');
+    expect(() => validateConfigFile({ concurrency: { dumps: 0 } })).toThrow(/^concurrency\.dumps must be a whole number .*, got 0$/);
+    expect(() => validateConfigFile({ storage: { googleDrive: { chunkSizeMb: '8' } } }))
+      .toThrow(/^storage\.googleDrive\.chunkSizeMb must be a whole number .*, got "8"$/);
+    expect(() => validateConfigFile({ cleanup: [] })).toThrow('cleanup must be an object');
+    expect(() => validateConfigFile({ outputDir: '' })).toThrow('outputDir must be a non-empty string');
+  });
+
+  it('rejects values outside their allowed set or syntax', () => {
+    expect(() => validateConfigFile({ storage: { backend: 'ftp' } }))
+      .toThrow("storage.backend must be one of google-drive, local, s3, got 'ftp'");
+    expect(() => validateConfigFile({ cleanup: { retentionPolicy: '7 days' } }))
+      .toThrow("cleanup.retentionPolicy: Invalid retention tier '7 days'");
+    expect(() => validateConfigFile({ overrides: [{ retention: '7d' }] }))
+      .toThrow('overrides[0] needs a project and/or branch pattern');
+  });
+});
+
+describe('loadConfigFile', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(join(tmpdir(), 'config-file-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('reads YAML and names the file in validation errors', async () => {
+    const valid = join(workDir, 'backup.yml');
+    await fs.writeFile(valid, 'storage:\n  backend: local\n  localDirectory: /srv/backups\n');
+    const invalid = join(workDir, 'broken.json');
+    await fs.writeFile(invalid, JSON.stringify({ storage: { backend: 'local', directory: '/srv/backups' } }));
+
+    await expect(loadConfigFile(valid)).resolves.toMatchObject({ storage: { backend: 'local', localDirectory: '/srv/backups' } });
+    await expect(loadConfigFile(invalid)).rejects.toThrow(`Invalid config file ${invalid}: Unknown key in storage: directory.`);
+  });
+});
+
+describe('getBackupConfiguration with a config file', () => {
+  const variables = ['CONFIG_FILE', 'STORAGE_BACKEND', 'LOCAL_STORAGE_DIR', 'OUTPUT_DIR', 'BACKUP_CONCURRENCY', 'RETENTION_POLICY', 'GITHUB_ACTIONS'];
+  let saved: Record<string, string | undefined>;
+  let workDir: string;
+
+  beforeEach(async () => {
+    saved = Object.fromEntries(variables.map(name => [name, process.env[name]]));
+    variables.forEach(name => delete process.env[name]);
+    workDir = await fs.mkdtemp(join(tmpdir(), 'config-precedence-'));
+    process.env.CONFIG_FILE = join(workDir, 'backup.yml');
+    await fs.writeFile(process.env.CONFIG_FILE, [
+      'outputDir: ./from-file',
+      'storage:',
+      '  backend: local',
+      '  localDirectory: /srv/from-file',
+      'concurrency:',
+      '  dumps: 2',
+      'cleanup:',
+      '  retentionPolicy: 7d',
+      ''
+    ].join('\n'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    for (const name of variables) {
+      if (saved[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = saved[name];
+      }
+    }
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('uses the config file for settings no environment variable sets', async () => {
+    const config = await getBackupConfiguration(false);
+
+    expect(config).toMatchObject({
+      outputDir: './from-file',
+      storageBackend: 'local',
+      localStorageDir: '/srv/from-file',
+      concurrency: { dumps: 2 },
+      retentionPolicy: { daily: 7, weekly: 0, monthly: 0, yearly: 0 }
+    });
+  });
+
+  it('lets environment variables override the config file', async () => {
+    process.env.OUTPUT_DIR = './from-env';
+    process.env.LOCAL_STORAGE_DIR = '/srv/from-env';
+    process.env.BACKUP_CONCURRENCY = '4';
+    process.env.RETENTION_POLICY = '3d,2w';
+
+    const config = await getBackupConfiguration(false);
+
+    expect(config).toMatchObject({
+      outputDir: './from-env',
+      storageBackend: 'local',
+      localStorageDir: '/srv/from-env',
+      concurrency: { dumps: 4 },
+      retentionPolicy: { daily: 3, weekly: 2, monthly: 0, yearly: 0 }
+    });
+  });
+});
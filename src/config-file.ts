@@ -0,0 +1,611 @@
+import { promises as fs } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ResourceFilterConfig, ScopedFilterConfig, compilePattern } from './resource-filter';
+import { parseActivityWindow } from './activity-window';
+import { parseRetentionPolicy } from './retention-policy';
+import { NOTIFY_ON_VALUES, NotifyOn } from './notifications';
+import { BACKUP_MODES, BackupMode, DUMP_FORMATS, DumpFormat } from './backup-service';
+import { parseFolderTemplate } from './folder-template';
+import { COMPRESSION_CODECS, CompressionCodec, CompressionSettings, resolveCompression } from './compression';
+
+/**
+ * pg_dump settings, globally or per project/branch
+ */
+export interface DumpSettings {
+  format?: DumpFormat;
+  compressionLevel?: number; // 0-9, used by the custom and directory formats
+  jobs?: number; // Tables dumped in parallel, directory format only
+  includeBlobs?: boolean;
+  includePrivileges?: boolean;
+  mode?: BackupMode; // full, schema-only or data-only
+  schemas?: string[]; // pg_dump patterns, e.g. "public" or "app_*"
+  excludeSchemas?: string[];
+  tables?: string[]; // pg_dump patterns, e.g. "public.orders"
+  excludeTables?: string[];
+  excludeTableData?: string[]; // Tables whose definition is kept but whose rows are not dumped
+}
+
+const DUMP_PATTERN_KEYS = ['schemas', 'excludeSchemas', 'tables', 'excludeTables', 'excludeTableData'] as const;
+
+/**
+ * Encryption settings of an override; the passphrase always comes from ENCRYPTION_PASSPHRASE
+ */
+export interface EncryptionSettings {
+  enabled?: boolean; // false uploads matching backups unencrypted
+  publicKeys?: string; // Armored OpenPGP public keys replacing the global recipients
+}
+
+/**
+ * Settings for the projects and branches matching `project` (name or ID) and `branch`; later entries win
+ */
+export interface ResourceOverride {
+  project?: string;
+  branch?: string;
+  dump?: DumpSettings;
+  compression?: CompressionSettings;
+  retention?: string; // Grandfather-father-son policy such as '7d,4w,12m,3y'
+  folder?: string; // Sub-folder template in storage, e.g. "shop/{branch}"; replaces storage.folderTemplate
+  schedule?: string; // Only runs with this SCHEDULE_TIER back these branches up
+  filters?: Omit<ScopedFilterConfig, 'project' | 'branch'>;
+  encryption?: EncryptionSettings;
+}
+
+/**
+ * Settings that can be kept in a YAML or JSON file (CONFIG_FILE) instead of action inputs.
+ * Secrets (API keys, credentials, passphrases) stay in environment variables.
+ */
+export interface ConfigFile {
+  activityWindow?: string;
+  outputDir?: string;
+  storage?: {
+    backend?: string;
+    localDirectory?: string;
+    folderTemplate?: string; // Sub-folder of each backup, e.g. "{project}/{branch}/{yyyy}/{mm}"
+    googleDrive?: {
+      folderName?: string;
+      parentFolderId?: string;
+      sharedDriveId?: string;
+      endpoint?: string;
+      chunkSizeMb?: number;
+    };
+    s3?: {
+      bucket?: string;
+      region?: string;
+      endpoint?: string;
+      prefix?: string;
+    };
+  };
+  cleanup?: {
+    enabled?: boolean;
+    retentionDays?: number;
+    retentionPolicy?: string;
+    retentionPolicyByMode?: Partial<Record<BackupMode, string>>; // Separate policies for schema-only and data-only tiers
+  };
+  dump?: DumpSettings;
+  compression?: CompressionSettings;
+  encryption?: {
+    publicKeys?: string;
+  };
+  streamingUploads?: boolean;
+  concurrency?: {
+    dumps?: number;
+    dumpsPerProject?: number;
+    uploads?: number;
+  };
+  filters?: ResourceFilterConfig;
+  overrides?: ResourceOverride[];
+  notifications?: NotificationSettings;
+  retry?: {
+    maxAttempts?: number;
+    initialDelayMs?: number;
+    maxDelayMs?: number;
+  };
+}
+
+/**
+ * When and where run notifications go; webhook URLs and the SMTP password stay in environment variables
+ */
+export interface NotificationSettings {
+  webhook?: { on?: NotifyOn };
+  slack?: { on?: NotifyOn };
+  email?: {
+    on?: NotifyOn;
+    to?: string; // Comma-separated recipients
+    from?: string;
+    host?: string;
+    port?: number;
+    secure?: boolean;
+    user?: string;
+  };
+}
+
+const FILTER_LIST_KEYS: (keyof ResourceFilterConfig)[] = [
+  'includeProjects',
+  'excludeProjects',
+  'includeBranches',
+  'excludeBranches',
+  'includeDatabases',
+  'excludeDatabases'
+];
+
+const SCOPED_FILTER_LIST_KEYS: (keyof ScopedFilterConfig)[] = [
+  'includeBranches',
+  'excludeBranches',
+  'includeDatabases',
+  'excludeDatabases'
+];
+
+const STORAGE_BACKENDS = ['google-drive', 'local', 's3'];
+
+/**
+ * Read and validate a config file; `.yml` and `.yaml` files are parsed as YAML, anything else as JSON
+ */
+export async function loadConfigFile(filePath: string): Promise<ConfigFile> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Could not read config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const isYaml = ['.yml', '.yaml'].includes(extname(filePath).toLowerCase());
+  let parsed: unknown;
+  try {
+    parsed = isYaml ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Config file ${filePath} is not valid ${isYaml ? 'YAML' : 'JSON'}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  try {
+    return validateConfigFile(parsed);
+  } catch (error) {
+    throw new Error(`Invalid config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Check a parsed config file against the schema, with errors naming the offending key
+ */
+export function validateConfigFile(value: unknown): ConfigFile {
+  if (!isObject(value)) {
+    throw new Error('the config file must contain an object');
+  }
+  checkKeys(value, [
+    'activityWindow', 'outputDir', 'storage', 'cleanup', 'dump', 'encryption',
+    'compression', 'streamingUploads', 'concurrency', 'filters', 'overrides', 'notifications', 'retry'
+  ], 'config file');
+
+  const config: ConfigFile = {
+    activityWindow: readString(value, 'activityWindow', ''),
+    outputDir: readString(value, 'outputDir', ''),
+    streamingUploads: readBoolean(value, 'streamingUploads', '')
+  };
+
+  if (config.activityWindow !== undefined) {
+    checkParses(() => parseActivityWindow(config.activityWindow!), 'activityWindow');
+  }
+
+  const storage = readObject(value, 'storage', '');
+  if (storage) {
+    checkKeys(storage, ['backend', 'localDirectory', 'folderTemplate', 'googleDrive', 's3'], 'storage');
+    const backend = readString(storage, 'backend', 'storage.');
+    if (backend !== undefined && !STORAGE_BACKENDS.includes(backend)) {
+      throw new Error(`storage.backend must be one of ${STORAGE_BACKENDS.join(', ')}, got '${backend}'`);
+    }
+
+    const googleDrive = readObject(storage, 'googleDrive', 'storage.');
+    if (googleDrive) {
+      checkKeys(googleDrive, ['folderName', 'parentFolderId', 'sharedDriveId', 'endpoint', 'chunkSizeMb'], 'storage.googleDrive');
+    }
+    const s3 = readObject(storage, 's3', 'storage.');
+    if (s3) {
+      checkKeys(s3, ['bucket', 'region', 'endpoint', 'prefix'], 'storage.s3');
+    }
+    config.storage = {
+      backend,
+      localDirectory: readString(storage, 'localDirectory', 'storage.'),
+      folderTemplate: readString(storage, 'folderTemplate', 'storage.'),
+      googleDrive: googleDrive && {
+        folderName: readString(googleDrive, 'folderName', 'storage.googleDrive.'),
+        parentFolderId: readString(googleDrive, 'parentFolderId', 'storage.googleDrive.'),
+        sharedDriveId: readString(googleDrive, 'sharedDriveId', 'storage.googleDrive.'),
+        endpoint: readString(googleDrive, 'endpoint', 'storage.googleDrive.'),
+        chunkSizeMb: readInteger(googleDrive, 'chunkSizeMb', 'storage.googleDrive.', 1)
+      },
+      s3: s3 && {
+        bucket: readString(s3, 'bucket', 'storage.s3.'),
+        region: readString(s3, 'region', 'storage.s3.'),
+        endpoint: readString(s3, 'endpoint', 'storage.s3.'),
+        prefix: readString(s3, 'prefix', 'storage.s3.')
+      }
+    };
+    if (config.storage.folderTemplate !== undefined) {
+      parseFolderTemplate('storage.folderTemplate', config.storage.folderTemplate);
+    }
+  }
+
+  const cleanup = readObject(value, 'cleanup', '');
+  if (cleanup) {
+    checkKeys(cleanup, ['enabled', 'retentionDays', 'retentionPolicy', 'retentionPolicyByMode'], 'cleanup');
+    config.cleanup = {
+      enabled: readBoolean(cleanup, 'enabled', 'cleanup.'),
+      retentionDays: readInteger(cleanup, 'retentionDays', 'cleanup.', 1),
+      retentionPolicy: readString(cleanup, 'retentionPolicy', 'cleanup.')
+    };
+    if (config.cleanup.retentionPolicy !== undefined) {
+      checkParses(() => parseRetentionPolicy(config.cleanup!.retentionPolicy!), 'cleanup.retentionPolicy');
+    }
+
+    const byMode = readObject(cleanup, 'retentionPolicyByMode', 'cleanup.');
+    if (byMode) {
+      checkKeys(byMode, BACKUP_MODES, 'cleanup.retentionPolicyByMode');
+      config.cleanup.retentionPolicyByMode = {};
+      for (const mode of BACKUP_MODES) {
+        const policy = readString(byMode, mode, 'cleanup.retentionPolicyByMode.');
+        if (policy !== undefined) {
+          checkParses(() => parseRetentionPolicy(policy), `cleanup.retentionPolicyByMode.${mode}`);
+          config.cleanup.retentionPolicyByMode[mode] = policy;
+        }
+      }
+    }
+  }
+
+  if (value.dump !== undefined) {
+    config.dump = validateDumpSettings(value.dump, 'dump');
+  }
+
+  if (value.compression !== undefined) {
+    config.compression = validateCompressionSettings(value.compression, 'compression');
+  }
+
+  const encryption = readObject(value, 'encryption', '');
+  if (encryption) {
+    checkKeys(encryption, ['publicKeys'], 'encryption');
+    config.encryption = { publicKeys: readString(encryption, 'publicKeys', 'encryption.') };
+  }
+
+  const concurrency = readObject(value, 'concurrency', '');
+  if (concurrency) {
+    checkKeys(concurrency, ['dumps', 'dumpsPerProject', 'uploads'], 'concurrency');
+    config.concurrency = {
+      dumps: readInteger(concurrency, 'dumps', 'concurrency.', 1),
+      dumpsPerProject: readInteger(concurrency, 'dumpsPerProject', 'concurrency.', 1),
+      uploads: readInteger(concurrency, 'uploads', 'concurrency.', 1)
+    };
+  }
+
+  const retry = readObject(value, 'retry', '');
+  if (retry) {
+    checkKeys(retry, ['maxAttempts', 'initialDelayMs', 'maxDelayMs'], 'retry');
+    config.retry = {
+      maxAttempts: readInteger(retry, 'maxAttempts', 'retry.', 1),
+      initialDelayMs: readInteger(retry, 'initialDelayMs', 'retry.', 0),
+      maxDelayMs: readInteger(retry, 'maxDelayMs', 'retry.', 0)
+    };
+  }
+
+  if (value.filters !== undefined) {
+    config.filters = validateFilters(value.filters);
+  }
+
+  if (value.overrides !== undefined) {
+    if (!Array.isArray(value.overrides)) {
+      throw new Error('overrides must be a list');
+    }
+    config.overrides = value.overrides.map((override, index) => validateOverride(override, `overrides[${index}]`));
+  }
+
+  const notifications = readObject(value, 'notifications', '');
+  if (notifications) {
+    config.notifications = validateNotifications(notifications);
+  }
+
+  return config;
+}
+
+/**
+ * Combine filters from the config file with filters from inputs; a list set through inputs replaces the file's list
+ */
+export function mergeFilterConfig(
+  fileFilters: ResourceFilterConfig = {},
+  inputFilters: ResourceFilterConfig = {}
+): ResourceFilterConfig {
+  const merged: ResourceFilterConfig = { ...fileFilters };
+
+  for (const key of [...FILTER_LIST_KEYS, 'force'] as (keyof ResourceFilterConfig)[]) {
+    const value = inputFilters[key];
+    if (value && value.length > 0) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Branch and database filters of the overrides, in the shape the discovery filter expects
+ */
+export function getScopedFilters(overrides: ResourceOverride[] = []): ScopedFilterConfig[] {
+  return overrides
+    .filter(override => override.filters)
+    .map(override => ({ project: override.project, branch: override.branch, ...override.filters }));
+}
+
+function validateOverride(value: unknown, path: string): ResourceOverride {
+  if (!isObject(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+  checkKeys(value, ['project', 'branch', 'dump', 'compression', 'retention', 'folder', 'schedule', 'filters', 'encryption'], path);
+
+  const override: ResourceOverride = {
+    project: readString(value, 'project', `${path}.`),
+    branch: readString(value, 'branch', `${path}.`),
+    retention: readString(value, 'retention', `${path}.`),
+    folder: readString(value, 'folder', `${path}.`),
+    schedule: readString(value, 'schedule', `${path}.`)
+  };
+
+  if (override.project === undefined && override.branch === undefined) {
+    throw new Error(`${path} needs a project and/or branch pattern`);
+  }
+  for (const key of ['project', 'branch'] as const) {
+    if (override[key] !== undefined) {
+      validatePatterns([override[key]], `${path}.${key}`);
+    }
+  }
+  if (override.retention !== undefined) {
+    checkParses(() => parseRetentionPolicy(override.retention!), `${path}.retention`);
+  }
+  if (override.folder !== undefined) {
+    parseFolderTemplate(`${path}.folder`, override.folder);
+  }
+
+  if (value.dump !== undefined) {
+    override.dump = validateDumpSettings(value.dump, `${path}.dump`);
+  }
+  if (value.compression !== undefined) {
+    override.compression = validateCompressionSettings(value.compression, `${path}.compression`);
+  }
+
+  const filters = readObject(value, 'filters', `${path}.`);
+  if (filters) {
+    checkKeys(filters, SCOPED_FILTER_LIST_KEYS, `${path}.filters`);
+    override.filters = {};
+    for (const key of SCOPED_FILTER_LIST_KEYS) {
+      if (filters[key] !== undefined) {
+        (override.filters as Record<string, unknown>)[key] = validatePatterns(filters[key], `${path}.filters.${key}`);
+      }
+    }
+  }
+
+  const encryption = readObject(value, 'encryption', `${path}.`);
+  if (encryption) {
+    checkKeys(encryption, ['enabled', 'publicKeys'], `${path}.encryption`);
+    override.encryption = {
+      enabled: readBoolean(encryption, 'enabled', `${path}.encryption.`),
+      publicKeys: readString(encryption, 'publicKeys', `${path}.encryption.`)
+    };
+  }
+
+  return override;
+}
+
+function validateDumpSettings(value: unknown, path: string): DumpSettings {
+  if (!isObject(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+  checkKeys(value, ['format', 'compressionLevel', 'jobs', 'includeBlobs', 'includePrivileges', 'mode', ...DUMP_PATTERN_KEYS], path);
+
+  const format = readString(value, 'format', `${path}.`);
+  if (format !== undefined && !DUMP_FORMATS.includes(format as DumpFormat)) {
+    throw new Error(`${path}.format must be one of ${DUMP_FORMATS.join(', ')}, got '${format}'`);
+  }
+
+  const mode = readString(value, 'mode', `${path}.`);
+  if (mode !== undefined && !BACKUP_MODES.includes(mode as BackupMode)) {
+    throw new Error(`${path}.mode must be one of ${BACKUP_MODES.join(', ')}, got '${mode}'`);
+  }
+
+  const settings: DumpSettings = {
+    format: format as DumpFormat | undefined,
+    compressionLevel: readInteger(value, 'compressionLevel', `${path}.`, 0, 9),
+    jobs: readInteger(value, 'jobs', `${path}.`, 1),
+    includeBlobs: readBoolean(value, 'includeBlobs', `${path}.`),
+    includePrivileges: readBoolean(value, 'includePrivileges', `${path}.`),
+    mode: mode as BackupMode | undefined
+  };
+  for (const key of DUMP_PATTERN_KEYS) {
+    settings[key] = readStringList(value, key, `${path}.`);
+  }
+  return settings;
+}
+
+function validateCompressionSettings(value: unknown, path: string): CompressionSettings {
+  if (!isObject(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+  checkKeys(value, ['codec', 'level'], path);
+
+  const codec = readString(value, 'codec', `${path}.`);
+  if (codec !== undefined && !COMPRESSION_CODECS.includes(codec as CompressionCodec)) {
+    throw new Error(`${path}.codec must be one of ${COMPRESSION_CODECS.join(', ')}, got '${codec}'`);
+  }
+
+  const settings: CompressionSettings = {
+    codec: codec as CompressionCodec | undefined,
+    level: readInteger(value, 'level', `${path}.`, 0)
+  };
+  // A level without a codec is checked once it is combined with the codec it applies to
+  if (settings.codec) {
+    checkParses(() => resolveCompression(settings), `${path}.level`);
+  }
+  return settings;
+}
+
+function validateFilters(value: unknown): ResourceFilterConfig {
+  if (!isObject(value)) {
+    throw new Error('filters must be an object');
+  }
+  checkKeys(value, [...FILTER_LIST_KEYS, 'force'], 'filters');
+
+  const filters: ResourceFilterConfig = {};
+
+  for (const key of FILTER_LIST_KEYS) {
+    if (value[key] === undefined) {
+      continue;
+    }
+    (filters as Record<string, unknown>)[key] = validatePatterns(value[key], `filters.${key}`);
+  }
+
+  if (value.force !== undefined) {
+    if (!Array.isArray(value.force)) {
+      throw new Error('filters.force must be a list of { project, branch, database } selectors');
+    }
+
+    filters.force = value.force.map((selector, index) => {
+      const path = `filters.force[${index}]`;
+      if (!isObject(selector)) {
+        throw new Error(`${path} must be an object with project, branch and/or database patterns`);
+      }
+      checkKeys(selector, ['project', 'branch', 'database'], path);
+
+      for (const part of ['project', 'branch', 'database']) {
+        if (selector[part] !== undefined) {
+          validatePatterns([selector[part]], `${path}.${part}`);
+        }
+      }
+      return {
+        project: selector.project as string | undefined,
+        branch: selector.branch as string | undefined,
+        database: selector.database as string | undefined
+      };
+    });
+  }
+
+  return filters;
+}
+
+function validateNotifications(value: Record<string, unknown>): NotificationSettings {
+  checkKeys(value, ['webhook', 'slack', 'email'], 'notifications');
+  const settings: NotificationSettings = {};
+
+  for (const channel of ['webhook', 'slack'] as const) {
+    const channelSettings = readObject(value, channel, 'notifications.');
+    if (channelSettings) {
+      checkKeys(channelSettings, ['on'], `notifications.${channel}`);
+      settings[channel] = { on: readNotifyOn(channelSettings, `notifications.${channel}.`) };
+    }
+  }
+
+  const email = readObject(value, 'email', 'notifications.');
+  if (email) {
+    checkKeys(email, ['on', 'to', 'from', 'host', 'port', 'secure', 'user'], 'notifications.email');
+    settings.email = {
+      on: readNotifyOn(email, 'notifications.email.'),
+      to: readString(email, 'to', 'notifications.email.'),
+      from: readString(email, 'from', 'notifications.email.'),
+      host: readString(email, 'host', 'notifications.email.'),
+      port: readInteger(email, 'port', 'notifications.email.', 1, 65535),
+      secure: readBoolean(email, 'secure', 'notifications.email.'),
+      user: readString(email, 'user', 'notifications.email.')
+    };
+  }
+
+  return settings;
+}
+
+function readNotifyOn(value: Record<string, unknown>, path: string): NotifyOn | undefined {
+  const on = readString(value, 'on', path);
+  if (on !== undefined && !NOTIFY_ON_VALUES.includes(on as NotifyOn)) {
+    throw new Error(`${path}on must be one of ${NOTIFY_ON_VALUES.join(', ')}, got '${on}'`);
+  }
+  return on as NotifyOn | undefined;
+}
+
+function validatePatterns(value: unknown, path: string): string[] {
+  if (!Array.isArray(value) || value.some(pattern => typeof pattern !== 'string' || !pattern)) {
+    throw new Error(`${path} must be a list of non-empty glob or /regex/ patterns`);
+  }
+
+  for (const pattern of value as string[]) {
+    try {
+      compilePattern(pattern);
+    } catch (error) {
+      throw new Error(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return value as string[];
+}
+
+function readString(value: Record<string, unknown>, key: string, path: string): string | undefined {
+  const field = value[key];
+  if (field === undefined) {
+    return undefined;
+  }
+  if (typeof field !== 'string' || !field.trim()) {
+    throw new Error(`${path}${key} must be a non-empty string`);
+  }
+  return field;
+}
+
+function readStringList(value: Record<string, unknown>, key: string, path: string): string[] | undefined {
+  const field = value[key];
+  if (field === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(field) || field.some(item => typeof item !== 'string' || !item.trim())) {
+    throw new Error(`${path}${key} must be a list of non-empty strings`);
+  }
+  return field as string[];
+}
+
+function readBoolean(value: Record<string, unknown>, key: string, path: string): boolean | undefined {
+  const field = value[key];
+  if (field !== undefined && typeof field !== 'boolean') {
+    throw new Error(`${path}${key} must be true or false, got ${JSON.stringify(field)}`);
+  }
+  return field;
+}
+
+function readInteger(value: Record<string, unknown>, key: string, path: string, min: number, max?: number): number | undefined {
+  const field = value[key];
+  if (field === undefined) {
+    return undefined;
+  }
+  if (typeof field !== 'number' || !Number.isInteger(field) || field < min || (max !== undefined && field > max)) {
+    const range = max === undefined ? `of at least ${min}` : `from ${min} to ${max}`;
+    throw new Error(`${path}${key} must be a whole number ${range}, got ${JSON.stringify(field)}`);
+  }
+  return field;
+}
+
+function readObject(value: Record<string, unknown>, key: string, path: string): Record<string, unknown> | undefined {
+  const field = value[key];
+  if (field === undefined) {
+    return undefined;
+  }
+  if (!isObject(field)) {
+    throw new Error(`${path}${key} must be an object`);
+  }
+  return field;
+}
+
+function checkParses(parse: () => unknown, path: string): void {
+  try {
+    parse();
+  } catch (error) {
+    throw new Error(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], path: string): void {
+  const unknown = Object.keys(value).filter(key => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown ${unknown.length === 1 ? 'key' : 'keys'} in ${path}: ${unknown.join(', ')}. Allowed: ${allowed.join(', ')}`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,222 @@
+import { drive_v3 } from 'googleapis';
+import { StoredBackupFile } from './storage-provider';
+import { getCompressionCodec } from './compression';
+import { parseBackupFileName } from './backup-service';
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// Folders searched by one files.list query; Drive rejects queries that grow too long
+const FOLDERS_PER_QUERY = 40;
+
+/**
+ * appProperties key holding the SHA-256 of a backup file, hex encoded
+ */
+export const CHECKSUM_PROPERTY = 'sha256';
+
+/**
+ * appProperties key holding the compression codec of a backup file
+ */
+export const COMPRESSION_PROPERTY = 'compression';
+
+/**
+ * appProperties key holding the backup mode (full, schema-only or data-only), so tiers can be told apart and queried
+ */
+export const MODE_PROPERTY = 'backupMode';
+
+/**
+ * appProperties recorded with an uploaded backup file
+ */
+export function getBackupAppProperties(fileName: string, sha256?: string): Record<string, string> {
+  return {
+    ...(sha256 ? { [CHECKSUM_PROPERTY]: sha256 } : {}),
+    [COMPRESSION_PROPERTY]: getCompressionCodec(fileName),
+    [MODE_PROPERTY]: parseBackupFileName(fileName)?.mode || 'full'
+  };
+}
+
+/**
+ * OAuth scope for Drive access: only the files the app created, or the whole Drive when backups go into
+ * a Shared Drive or a folder the app did not create itself
+ */
+export function getDriveScope(parentFolderId?: string, sharedDriveId?: string): string {
+  return parentFolderId || sharedDriveId
+    ? 'https://www.googleapis.com/auth/drive'
+    : 'https://www.googleapis.com/auth/drive.file';
+}
+
+/**
+ * Flags for files.list: search the given Shared Drive, or everything the account can reach when none is given.
+ * Calls on single files only need `supportsAllDrives`, see SHARED_DRIVE_SUPPORT.
+ */
+export function getListScope(sharedDriveId?: string): Pick<drive_v3.Params$Resource$Files$List, 'supportsAllDrives' | 'includeItemsFromAllDrives' | 'corpora' | 'driveId'> {
+  return sharedDriveId
+    ? { supportsAllDrives: true, includeItemsFromAllDrives: true, corpora: 'drive', driveId: sharedDriveId }
+    : { supportsAllDrives: true, includeItemsFromAllDrives: true };
+}
+
+/**
+ * Without this flag Drive answers "File not found" for files in Shared Drives
+ */
+export const SHARED_DRIVE_SUPPORT = { supportsAllDrives: true };
+
+/**
+ * Look up a Shared Drive, so a wrong ID or missing membership fails with a clear message before any upload
+ */
+export async function checkSharedDrive(drive: drive_v3.Drive, sharedDriveId: string): Promise<void> {
+  try {
+    const response = await drive.drives.get({ driveId: sharedDriveId, fields: 'id, name' });
+    console.log(`🏢 Using Shared Drive '${response.data.name}': ${sharedDriveId}`);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Shared Drive ${sharedDriveId} is not accessible; check the ID and that the account is a member with at least Content manager access: ${reason}`);
+  }
+}
+
+/**
+ * Quote a value for a Drive search query
+ */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Find a folder by name, or create it if it doesn't exist. Without a parent the folder sits at the top of the Shared Drive,
+ * or of My Drive when no Shared Drive is given.
+ */
+export async function findOrCreateFolder(drive: drive_v3.Drive, folderName: string, parentId?: string, sharedDriveId?: string): Promise<string> {
+  parentId = parentId || sharedDriveId;
+
+  try {
+    // Search for existing folder
+    const query = parentId
+      ? `name=${quote(folderName)} and ${quote(parentId)} in parents and mimeType='${FOLDER_MIME_TYPE}' and trashed=false`
+      : `name=${quote(folderName)} and mimeType='${FOLDER_MIME_TYPE}' and trashed=false`;
+
+    const searchResponse = await drive.files.list({
+      q: query,
+      fields: 'files(id, name)',
+      spaces: 'drive',
+      ...getListScope(sharedDriveId)
+    });
+
+    if (searchResponse.data.files && searchResponse.data.files.length > 0) {
+      const folderId = searchResponse.data.files[0].id!;
+      console.log(`📁 Found existing folder '${folderName}': ${folderId}`);
+      return folderId;
+    }
+
+    // Create new folder if not found
+    console.log(`📁 Creating new folder '${folderName}'...`);
+
+    const createResponse = await drive.files.create({
+      requestBody: {
+        name: folderName,
+        mimeType: FOLDER_MIME_TYPE,
+        parents: parentId ? [parentId] : undefined
+      },
+      fields: 'id',
+      ...SHARED_DRIVE_SUPPORT
+    });
+
+    const folderId = createResponse.data.id!;
+    console.log(`✅ Created new folder '${folderName}': ${folderId}`);
+    return folderId;
+
+  } catch (error) {
+    console.error(`❌ Error finding/creating folder '${folderName}':`, error);
+    throw error;
+  }
+}
+
+/**
+ * Sub-folders below the backup folder, addressed by relative paths such as "shop/main"
+ */
+export class DriveFolderTree {
+  private drive: drive_v3.Drive;
+  private rootId: string;
+  private sharedDriveId?: string;
+  private folderIds = new Map<string, Promise<string>>();
+
+  constructor(drive: drive_v3.Drive, rootId: string, sharedDriveId?: string) {
+    this.drive = drive;
+    this.rootId = rootId;
+    this.sharedDriveId = sharedDriveId;
+  }
+
+  /**
+   * ID of the folder at a relative path, creating missing folders; the backup folder itself for an empty path
+   */
+  resolve(path?: string): Promise<string> {
+    const parts = (path || '').split('/').map(part => part.trim()).filter(Boolean);
+    if (parts.length === 0) {
+      return Promise.resolve(this.rootId);
+    }
+
+    const key = parts.join('/');
+    let folderId = this.folderIds.get(key);
+    if (!folderId) {
+      // Cache the promise so concurrent uploads into a new folder don't create it twice
+      folderId = this.resolve(parts.slice(0, -1).join('/'))
+        .then(parentId => findOrCreateFolder(this.drive, parts[parts.length - 1], parentId, this.sharedDriveId));
+      folderId.catch(() => this.folderIds.delete(key));
+      this.folderIds.set(key, folderId);
+    }
+    return folderId;
+  }
+
+  /**
+   * List the files in the backup folder and all its sub-folders, newest first.
+   * Folders are searched level by level, several at a time, so deep layouts such as project/branch/year/month stay cheap to list.
+   */
+  async listFiles(maxResults?: number): Promise<StoredBackupFile[]> {
+    const files: StoredBackupFile[] = [];
+    let level = new Map<string, string>([[this.rootId, '']]); // Folder ID to relative path
+
+    while (level.size > 0) {
+      const next = new Map<string, string>();
+      const ids = Array.from(level.keys());
+
+      for (let i = 0; i < ids.length; i += FOLDERS_PER_QUERY) {
+        const parents = ids.slice(i, i + FOLDERS_PER_QUERY);
+        let pageToken: string | undefined;
+
+        do {
+          const response = await this.drive.files.list({
+            q: `(${parents.map(id => `${quote(id)} in parents`).join(' or ')}) and trashed=false`,
+            fields: 'nextPageToken, files(id, name, mimeType, parents, size, createdTime, webViewLink, md5Checksum, appProperties)',
+            pageSize: 1000,
+            pageToken,
+            ...getListScope(this.sharedDriveId)
+          });
+
+          for (const file of response.data.files || []) {
+            const parentPath = level.get(file.parents?.find(id => level.has(id)) || '') ?? '';
+            const path = parentPath ? `${parentPath}/${file.name}` : file.name!;
+            if (file.mimeType === FOLDER_MIME_TYPE) {
+              next.set(file.id!, path);
+              this.folderIds.set(path, Promise.resolve(file.id!));
+              continue;
+            }
+
+            files.push({
+              id: file.id!,
+              name: file.name!,
+              folder: parentPath || undefined,
+              size: file.size ? parseInt(file.size) : undefined,
+              createdTime: file.createdTime || undefined,
+              webViewLink: file.webViewLink || undefined,
+              checksum: file.appProperties?.[CHECKSUM_PROPERTY] || undefined,
+              md5Checksum: file.md5Checksum || undefined
+            });
+          }
+          pageToken = response.data.nextPageToken || undefined;
+        } while (pageToken);
+      }
+
+      level = next;
+    }
+
+    files.sort((a, b) => (b.createdTime || '').localeCompare(a.createdTime || ''));
+    return files.slice(0, maxResults);
+  }
+}
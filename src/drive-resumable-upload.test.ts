@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { OAuth2Client } from 'google-auth-library';
+import { DriveResumableUpload } from './drive-resumable-upload';
+
+const CHUNK_SIZE = 256 * 1024;
+const FAST_RETRIES = { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 1 };
+
+interface DriveStandInOptions {
+  // Bytes of the n-th data request (1-based) that the session stores; 'drop' stores half and closes the connection
+  storeBytes?: (request: number, body: Buffer) => number | 'drop';
+  expired?: boolean; // Answer every session request with 404
+  patchFailures?: number; // appProperties updates answered with 503 before one succeeds
+}
+
+interface DriveStandIn {
+  endpoint: string;
+  server: Server;
+  contentRanges: string[]; // Of every session request, in order
+  stored: () => Buffer;
+  patches: unknown[];
+}
+
+/**
+ * Local stand-in for the resumable upload endpoints: stores what it is sent, answers 308 with the stored Range
+ * and rejects chunks that do not continue where the stored data ends, like Drive does
+ */
+async function startDriveStandIn(options: DriveStandInOptions = {}): Promise<DriveStandIn> {
+  const contentRanges: string[] = [];
+  const patches: unknown[] = [];
+  let stored = Buffer.alloc(0);
+  let dataRequests = 0;
+
+  const server = createServer((request, response) => {
+    const pieces: Buffer[] = [];
+    request.on('data', chunk => pieces.push(chunk));
+    request.on('end', () => {
+      const body = Buffer.concat(pieces);
+      const path = new URL(request.url || '/', 'http://127.0.0.1').pathname;
+
+      if (request.method === 'POST' && path === '/upload/drive/v3/files') {
+        response.writeHead(200, { Location: `${standIn.endpoint}/upload/session` });
+        response.end();
+        return;
+      }
+
+      if (request.method === 'PATCH' && path === '/drive/v3/files/file-1') {
+        patches.push(JSON.parse(body.toString()));
+        const failed = patches.length <= (options.patchFailures || 0);
+        response.writeHead(failed ? 503 : 200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(failed ? { error: { code: 503, message: 'Backend Error' } } : { id: 'file-1' }));
+        return;
+      }
+
+      if (request.method !== 'PUT' || path !== '/upload/session') {
+        response.writeHead(404);
+        response.end();
+        return;
+      }
+
+      const contentRange = String(request.headers['content-range']);
+      contentRanges.push(contentRange);
+      if (options.expired) {
+        response.writeHead(404);
+        response.end();
+        return;
+      }
+
+      const match = /^bytes (?:(\d+)-\d+|\*)\/(\d+|\*)$/.exec(contentRange);
+      const total = match && match[2] !== '*' ? parseInt(match[2]) : undefined;
+      if (match?.[1] !== undefined) {
+        if (parseInt(match[1]) !== stored.length) {
+          response.writeHead(400);
+          response.end(`Chunk starts at ${match[1]}, ${stored.length} bytes are stored`);
+          return;
+        }
+
+        const accepted = options.storeBytes?.(++dataRequests, body) ?? body.length;
+        if (accepted === 'drop') {
+          stored = Buffer.concat([stored, body.subarray(0, Math.floor(body.length / 2))]);
+          request.socket.destroy();
+          return;
+        }
+        stored = Buffer.concat([stored, body.subarray(0, accepted)]);
+      }
+
+      if (total !== undefined && stored.length === total) {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ id: 'file-1', name: 'backup.sql.gz', size: String(total) }));
+        return;
+      }
+      response.writeHead(308, stored.length > 0 ? { Range: `bytes=0-${stored.length - 1}` } : {});
+      response.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const standIn: DriveStandIn = {
+    endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    server,
+    contentRanges,
+    stored: () => stored,
+    patches
+  };
+  return standIn;
+}
+
+function createUpload(standIn: DriveStandIn): DriveResumableUpload {
+  const auth = new OAuth2Client();
+  auth.setCredentials({ access_token: 'test-token', expiry_date: Date.now() + 60 * 60 * 1000 });
+  return new DriveResumableUpload(auth, { chunkSize: CHUNK_SIZE, endpoint: standIn.endpoint, retryPolicy: FAST_RETRIES });
+}
+
+/**
+ * A stream that hands out the data in small pieces, like pg_dump output does
+ */
+function toStream(data: Buffer): Readable {
+  const pieces: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += 16 * 1024) {
+    pieces.push(data.subarray(offset, offset + 16 * 1024));
+  }
+  return Readable.from(pieces);
+}
+
+describe('DriveResumableUpload', () => {
+  let standIn: DriveStandIn | undefined;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => standIn ? standIn.server.close(resolve) : resolve(undefined));
+    standIn = undefined;
+  });
+
+  it('uploads a stream in aligned chunks and stores its SHA-256 in appProperties', async () => {
+    standIn = await startDriveStandIn();
+    const data = randomBytes(600 * 1024);
+
+    const file = await createUpload(standIn).uploadStream(toStream(data), { name: 'backup.sql.gz' });
+
+    expect(standIn.contentRanges).toEqual(['bytes 0-262143/*', 'bytes 262144-524287/*', 'bytes 524288-614399/614400']);
+    expect(standIn.stored().equals(data)).toBe(true);
+    const sha256 = createHash('sha256').update(data).digest('hex');
+    expect(file).toMatchObject({ id: 'file-1', sha256 });
+    expect(standIn.patches).toEqual([{ appProperties: { sha256 } }]);
+  });
+
+  it('resends the rest of a chunk that Drive only partly stored', async () => {
+    standIn = await startDriveStandIn({ storeBytes: (request, body) => request === 1 ? 100 * 1024 : body.length });
+    const data = randomBytes(600 * 1024);
+
+    await createUpload(standIn).uploadStream(toStream(data), { name: 'backup.sql.gz' });
+
+    expect(standIn.contentRanges).toEqual([
+      'bytes 0-262143/*',
+      'bytes 102400-262143/*',
+      'bytes 262144-524287/*',
+      'bytes 524288-614399/614400'
+    ]);
+    expect(standIn.stored().equals(data)).toBe(true);
+  });
+
+  it('resends the rest of a file chunk that Drive only partly stored', async () => {
+    standIn = await startDriveStandIn({ storeBytes: (request, body) => request === 2 ? 1000 : body.length });
+    const data = randomBytes(300 * 1024);
+    const filePath = join(tmpdir(), `resumable-upload-${process.pid}.bin`);
+    await fs.writeFile(filePath, data);
+
+    try {
+      const file = await createUpload(standIn).uploadFile(filePath, { name: 'backup.sql.gz' });
+      expect(file.id).toBe('file-1');
+    } finally {
+      await fs.rm(filePath, { force: true });
+    }
+
+    expect(standIn.contentRanges).toEqual(['bytes 0-262143/307200', 'bytes 262144-307199/307200', 'bytes 263144-307199/307200']);
+    expect(standIn.stored().equals(data)).toBe(true);
+  });
+
+  it('asks for the session status after a dropped connection and resumes from the stored byte', async () => {
+    standIn = await startDriveStandIn({ storeBytes: (request, body) => request === 2 ? 'drop' : body.length });
+    const data = randomBytes(600 * 1024);
+
+    await createUpload(standIn).uploadStream(toStream(data), { name: 'backup.sql.gz' });
+
+    expect(standIn.contentRanges).toEqual([
+      'bytes 0-262143/*',
+      'bytes 262144-524287/*',
+      'bytes */*',
+      'bytes 393216-524287/*',
+      'bytes 524288-614399/614400'
+    ]);
+    expect(standIn.stored().equals(data)).toBe(true);
+  });
+
+  it('fails with a retryable error when the session expired', async () => {
+    standIn = await startDriveStandIn({ expired: true });
+
+    await expect(createUpload(standIn).uploadStream(toStream(randomBytes(100 * 1024)), { name: 'backup.sql.gz' }))
+      .rejects.toMatchObject({ message: 'Google Drive upload session expired', retryable: true });
+    expect(standIn.contentRanges).toEqual(['bytes 0-102399/102400']);
+  });
+
+  it('retries storing the SHA-256 after a transient failure', async () => {
+    standIn = await startDriveStandIn({ patchFailures: 1 });
+
+    const file = await createUpload(standIn).uploadStream(toStream(randomBytes(1024)), { name: 'backup.sql.gz' });
+
+    expect(standIn.patches).toHaveLength(2);
+    expect(file.id).toBe('file-1');
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it('reports the upload as done when the SHA-256 cannot be stored', async () => {
+    standIn = await startDriveStandIn({ patchFailures: FAST_RETRIES.maxAttempts });
+    const data = randomBytes(1024);
+
+    const file = await createUpload(standIn).uploadStream(toStream(data), { name: 'backup.sql.gz' });
+
+    expect(standIn.patches).toHaveLength(FAST_RETRIES.maxAttempts);
+    expect(file.sha256).toBe(createHash('sha256').update(data).digest('hex'));
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('could not store its SHA-256'));
+  });
+});
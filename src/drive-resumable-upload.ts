@@ -0,0 +1,338 @@
+import { AuthClient } from 'google-auth-library';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { CHECKSUM_PROPERTY } from './drive-folders';
+import { DEFAULT_RETRY_POLICY, Retrier, RetryPolicy, RetryableError, getRetryDelay, isRetryableError } from './retry';
+
+/**
+ * Root of the Drive API; a local stand-in that imitates the resumable session endpoints can be used instead
+ */
+export const DEFAULT_DRIVE_ENDPOINT = 'https://www.googleapis.com';
+
+const UPLOADED_FILE_FIELDS = 'id, name, webViewLink, size, md5Checksum';
+
+// Drive requires every chunk except the last to be a multiple of 256 KiB
+const CHUNK_ALIGNMENT = 256 * 1024;
+
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+// Streams have no total size, so their progress is logged every this many bytes
+const STREAM_PROGRESS_INTERVAL = 256 * 1024 * 1024;
+
+export interface DriveFileMetadata {
+  name: string;
+  parents?: string[];
+  description?: string;
+  appProperties?: Record<string, string>;
+}
+
+export interface DriveUploadedFile {
+  id: string;
+  name: string;
+  webViewLink?: string;
+  size?: string;
+  md5Checksum?: string;
+  sha256: string; // Of the uploaded data, hex encoded; also stored in the file's appProperties
+}
+
+type DriveFile = Omit<DriveUploadedFile, 'sha256'>;
+
+export interface ResumableUploadOptions {
+  chunkSize?: number; // Bytes per request, rounded down to a multiple of 256 KiB (default: 8 MiB)
+  endpoint?: string; // Default: DEFAULT_DRIVE_ENDPOINT
+  retryPolicy?: RetryPolicy; // Attempts per chunk; a chunk that made progress starts counting again
+}
+
+/**
+ * Where a session stands after a request: the bytes Drive has stored, or the file once the upload is complete
+ */
+type SessionStatus = { committed: number; file?: undefined } | { committed?: undefined; file: DriveFile };
+
+/**
+ * Uploads files and streams into Google Drive using the resumable upload protocol.
+ * Data is sent in chunks; a chunk that fails on a transient error is resumed from the offset Drive confirms,
+ * so a network hiccup on a multi-GB backup only costs the rest of one chunk.
+ */
+export class DriveResumableUpload {
+  private auth: AuthClient;
+  private chunkSize: number;
+  private endpoint: string;
+  private retryPolicy: RetryPolicy;
+
+  constructor(auth: AuthClient, options: ResumableUploadOptions = {}) {
+    this.auth = auth;
+    const requested = options.chunkSize || DEFAULT_CHUNK_SIZE;
+    this.chunkSize = Math.max(CHUNK_ALIGNMENT, Math.floor(requested / CHUNK_ALIGNMENT) * CHUNK_ALIGNMENT);
+    this.endpoint = (options.endpoint || DEFAULT_DRIVE_ENDPOINT).replace(/\/+$/, '');
+    this.retryPolicy = options.retryPolicy || DEFAULT_RETRY_POLICY;
+  }
+
+  /**
+   * Upload a file as a new Drive file, reading one chunk at a time so memory use stays at the chunk size
+   */
+  async uploadFile(filePath: string, metadata: DriveFileMetadata): Promise<DriveFile> {
+    const total = (await fs.stat(filePath)).size;
+    const sessionUri = await this.startSession(metadata, total);
+    const file = await fs.open(filePath, 'r');
+    const progress = total > this.chunkSize ? new UploadProgress(metadata.name, total) : undefined; // Single requests need no progress
+
+    try {
+      let offset = 0;
+      do {
+        const length = Math.min(this.chunkSize, total - offset);
+        const chunk = Buffer.alloc(length);
+        const { bytesRead } = await file.read(chunk, 0, length, offset);
+        if (bytesRead !== length) {
+          throw new Error(`${filePath} changed during upload: expected ${length} bytes at offset ${offset}, read ${bytesRead}`);
+        }
+
+        const uploaded = await this.sendChunk(sessionUri, chunk, offset, total);
+        if (uploaded) {
+          progress?.update(total);
+          return uploaded;
+        }
+        offset += length;
+        progress?.update(offset);
+      } while (offset < total);
+    } finally {
+      await file.close();
+    }
+
+    throw new Error(`Google Drive did not complete the upload of ${metadata.name} after all ${total} bytes were sent`);
+  }
+
+  /**
+   * Upload a stream as a new Drive file, chunk by chunk as the data arrives.
+   * The SHA-256 is only known at the end, so it is added to the file's appProperties afterwards; Drive merges it with the others.
+   */
+  async uploadStream(stream: Readable, metadata: DriveFileMetadata): Promise<DriveUploadedFile> {
+    const sessionUri = await this.startSession(metadata);
+    const progress = new UploadProgress(metadata.name);
+
+    let pieces: Buffer[] = [];
+    let pendingLength = 0;
+    let offset = 0;
+    const hash = createHash('sha256');
+
+    for await (const data of stream) {
+      hash.update(data as Buffer);
+      pieces.push(data as Buffer);
+      pendingLength += (data as Buffer).length;
+
+      // Keep at least one byte back so the final request always carries the total size
+      if (pendingLength <= this.chunkSize) {
+        continue;
+      }
+      let pending = Buffer.concat(pieces, pendingLength);
+      while (pending.length > this.chunkSize) {
+        const chunk = pending.subarray(0, this.chunkSize);
+        await this.sendChunk(sessionUri, chunk, offset);
+        offset += chunk.length;
+        pending = pending.subarray(this.chunkSize);
+        progress.update(offset);
+      }
+      pieces = [pending];
+      pendingLength = pending.length;
+    }
+
+    const total = offset + pendingLength;
+    const file = await this.sendChunk(sessionUri, Buffer.concat(pieces, pendingLength), offset, total);
+    if (!file) {
+      throw new Error(`Google Drive did not complete the upload of ${metadata.name} after all ${total} bytes were sent`);
+    }
+    progress.update(total);
+    const sha256 = hash.digest('hex');
+
+    // The data is stored at this point; a missing property must not turn the backup into a failed upload and a duplicate
+    try {
+      await new Retrier(this.retryPolicy).run('upload', `Storing the SHA-256 of ${metadata.name}`, () => this.auth.request({
+        url: `${this.endpoint}/drive/v3/files/${file.id}`,
+        method: 'PATCH',
+        params: { fields: 'id', supportsAllDrives: true },
+        data: { appProperties: { [CHECKSUM_PROPERTY]: sha256 } }
+      }));
+    } catch (error) {
+      console.error(`⚠️  Uploaded ${metadata.name}, but could not store its SHA-256 in appProperties: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return { ...file, sha256 };
+  }
+
+  /**
+   * Open a resumable upload session and return its URI; the size is announced when it is known
+   */
+  private async startSession(metadata: DriveFileMetadata, total?: number): Promise<string> {
+    const response = await this.auth.request({
+      url: `${this.endpoint}/upload/drive/v3/files`,
+      method: 'POST',
+      params: {
+        uploadType: 'resumable',
+        fields: UPLOADED_FILE_FIELDS,
+        supportsAllDrives: true
+      },
+      headers: {
+        'Content-Type': 'application/json; charset=UTF-8',
+        'X-Upload-Content-Type': 'application/octet-stream',
+        ...(total !== undefined ? { 'X-Upload-Content-Length': String(total) } : {})
+      },
+      data: metadata
+    });
+
+    const sessionUri = response.headers.location;
+    if (!sessionUri) {
+      throw new Error('Google Drive did not return a resumable upload session URI');
+    }
+
+    return sessionUri;
+  }
+
+  /**
+   * Send the chunk starting at `offset`. Intermediate chunks are answered with 308 Resume Incomplete and resolve to undefined
+   * once Drive has stored all of them; the last chunk, sent with the `total` size, resolves to the completed file.
+   * Drive may store less than it was sent, and after a transient failure the session status tells how much arrived;
+   * either way only the rest of the chunk is sent again.
+   */
+  private async sendChunk(sessionUri: string, chunk: Buffer, offset: number, total?: number): Promise<DriveFile | undefined> {
+    let sent = 0;
+    let failures = 0;
+
+    for (;;) {
+      try {
+        const status = await this.putChunk(sessionUri, chunk.subarray(sent), offset + sent, total);
+        if (status.file) {
+          return status.file;
+        }
+
+        const committed = this.getChunkProgress(status.committed, offset, chunk.length);
+        if (committed === chunk.length) {
+          return undefined;
+        }
+        if (committed <= sent) {
+          throw new RetryableError(`Google Drive stored none of the ${chunk.length - sent} bytes sent at byte ${offset + sent}`, true);
+        }
+        failures = 0;
+        sent = committed;
+      } catch (error) {
+        if (isSessionExpired(error)) {
+          // Sessions last a week and are gone after a 404 or 410; only a new upload can help
+          throw new RetryableError('Google Drive upload session expired', true);
+        }
+        if (!isRetryableError(error) || ++failures >= this.retryPolicy.maxAttempts) {
+          throw error;
+        }
+
+        const delay = getRetryDelay(this.retryPolicy, failures);
+        const reason = error instanceof Error ? error.message : String(error);
+        console.log(`🔁 Chunk at byte ${offset + sent} failed (attempt ${failures}/${this.retryPolicy.maxAttempts}), resuming in ${Math.round(delay / 1000)}s: ${reason}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+
+        const status = await this.getSessionStatus(sessionUri, total);
+        if (status.file) {
+          return status.file;
+        }
+
+        const committed = this.getChunkProgress(status.committed, offset, chunk.length);
+        if (committed > sent) {
+          failures = 0; // Progress was made, the network is not down for good
+        }
+        sent = committed;
+      }
+    }
+  }
+
+  /**
+   * Bytes of the chunk at `offset` that Drive has stored, given the total it reports for the session
+   */
+  private getChunkProgress(committed: number, offset: number, length: number): number {
+    const progress = committed - offset;
+    if (progress < 0 || progress > length) {
+      throw new Error(`Google Drive reports ${committed} bytes stored, outside the chunk at ${offset}-${offset + length}`);
+    }
+    return progress;
+  }
+
+  private async putChunk(sessionUri: string, chunk: Buffer, offset: number, total?: number): Promise<SessionStatus> {
+    const size = total === undefined ? '*' : String(total);
+    const range = chunk.length > 0 ? `bytes ${offset}-${offset + chunk.length - 1}/${size}` : `bytes */${size}`;
+
+    const response = await this.auth.request<DriveFile>({
+      url: sessionUri,
+      method: 'PUT',
+      headers: {
+        'Content-Length': String(chunk.length),
+        'Content-Range': range
+      },
+      data: chunk,
+      validateStatus: status => status === 308 || (status >= 200 && status < 300)
+    });
+
+    return response.status === 308 ? { committed: parseCommittedBytes(response.headers.range) } : { file: response.data };
+  }
+
+  /**
+   * Ask Drive how much of an interrupted upload it has stored
+   */
+  private async getSessionStatus(sessionUri: string, total?: number): Promise<SessionStatus> {
+    const response = await this.auth.request<DriveFile>({
+      url: sessionUri,
+      method: 'PUT',
+      headers: {
+        'Content-Length': '0',
+        'Content-Range': `bytes */${total === undefined ? '*' : total}`
+      },
+      validateStatus: status => status === 308 || (status >= 200 && status < 300)
+    });
+
+    return response.status === 308 ? { committed: parseCommittedBytes(response.headers.range) } : { file: response.data };
+  }
+}
+
+/**
+ * Logs upload progress in steps of 10% for files, and every 256 MiB for streams of unknown length
+ */
+class UploadProgress {
+  private name: string;
+  private total?: number;
+  private reported = 0;
+  private startTime = Date.now();
+
+  constructor(name: string, total?: number) {
+    this.name = name;
+    this.total = total;
+  }
+
+  update(uploaded: number): void {
+    const step = this.total === undefined
+      ? Math.floor(uploaded / STREAM_PROGRESS_INTERVAL)
+      : Math.floor(uploaded / this.total * 10);
+    if (step <= this.reported) {
+      return;
+    }
+    this.reported = step;
+
+    const seconds = Math.max(1, (Date.now() - this.startTime) / 1000);
+    const rate = `${formatMegabytes(uploaded / seconds)}/s`;
+    console.log(this.total === undefined
+      ? `⏫ ${this.name}: ${formatMegabytes(uploaded)} uploaded (${rate})`
+      : `⏫ ${this.name}: ${step * 10}% (${formatMegabytes(uploaded)} of ${formatMegabytes(this.total)}, ${rate})`);
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Bytes stored in a session according to the Range header of a 308 answer: "bytes=0-1048575" lists the stored range,
+ * no header means nothing was stored yet
+ */
+function parseCommittedBytes(header: unknown): number {
+  const range = /bytes=0-(\d+)/.exec(String(header || ''));
+  return range ? parseInt(range[1]) + 1 : 0;
+}
+
+function isSessionExpired(error: unknown): boolean {
+  const status = (error as { response?: { status?: number } })?.response?.status;
+  return status === 404 || status === 410;
+}
@@ -0,0 +1,148 @@
+import * as openpgp from 'openpgp';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { basename } from 'path';
+import { PassThrough, Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+
+export const ENCRYPTED_EXTENSION = '.gpg';
+
+export interface EncryptionConfig {
+  passphrase?: string; // Symmetric mode
+  publicKeys?: string; // Public-key mode: one or more armored OpenPGP public keys
+  privateKey?: string; // Armored private key, only needed to decrypt in public-key mode
+  privateKeyPassphrase?: string;
+}
+
+/**
+ * Encrypts backup archives with OpenPGP before they leave the machine, so they can also be
+ * decrypted with stock `gpg --decrypt`
+ */
+export class BackupEncryptionService {
+  private config: EncryptionConfig;
+
+  constructor(config: EncryptionConfig) {
+    if (!config.passphrase && !config.publicKeys && !config.privateKey) {
+      throw new Error('Encryption requires a passphrase, public keys or a private key');
+    }
+
+    this.config = config;
+  }
+
+  /**
+   * Describe the active mode for logs
+   */
+  describeMode(): string {
+    return this.config.publicKeys ? 'OpenPGP public-key' : 'OpenPGP passphrase';
+  }
+
+  /**
+   * Encrypt a file to "<file>.gpg" and return the path of the encrypted copy; `observer` sees the encrypted bytes
+   */
+  async encryptFile(filePath: string, observer: Transform = new PassThrough()): Promise<string> {
+    if (!this.config.passphrase && !this.config.publicKeys) {
+      throw new Error('Encrypting requires either a passphrase or at least one public key');
+    }
+
+    const encryptedPath = `${filePath}${ENCRYPTED_EXTENSION}`;
+    console.log(`🔐 Encrypting ${basename(filePath)} (${this.describeMode()})...`);
+
+    try {
+      const encrypted = await this.encryptStream(createReadStream(filePath));
+      await pipeline(encrypted, observer, createWriteStream(encryptedPath));
+
+      const stats = await fs.stat(encryptedPath);
+      console.log(`✅ Encrypted to ${basename(encryptedPath)} (${stats.size} bytes)`);
+      return encryptedPath;
+    } catch (error) {
+      await fs.rm(encryptedPath, { force: true });
+      console.error(`❌ Error encrypting ${basename(filePath)}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Encrypt a stream on the fly; also used by streaming backups that never hit the disk
+   */
+  async encryptStream(stream: Readable): Promise<Readable> {
+    if (!this.config.passphrase && !this.config.publicKeys) {
+      throw new Error('Encrypting requires either a passphrase or at least one public key');
+    }
+
+    const message = await openpgp.createMessage({
+      binary: Readable.toWeb(stream) as ReadableStream<Uint8Array>
+    });
+
+    const encryptionKeys = this.config.publicKeys
+      ? await openpgp.readKeys({ armoredKeys: this.config.publicKeys })
+      : undefined;
+
+    const encrypted = await openpgp.encrypt({
+      message,
+      format: 'binary',
+      encryptionKeys,
+      passwords: encryptionKeys ? undefined : [this.config.passphrase!]
+    });
+
+    return Readable.fromWeb(encrypted as NodeReadableStream<Uint8Array>);
+  }
+
+  /**
+   * Decrypt a "<file>.gpg" file and return the path of the decrypted copy
+   */
+  async decryptFile(encryptedPath: string, outputPath: string = encryptedPath.replace(/\.gpg$/, '')): Promise<string> {
+    console.log(`🔓 Decrypting ${basename(encryptedPath)}...`);
+
+    try {
+      const message = await openpgp.readMessage({
+        binaryMessage: Readable.toWeb(createReadStream(encryptedPath)) as ReadableStream<Uint8Array>
+      });
+
+      let decryptionKeys: openpgp.PrivateKey | undefined;
+      if (this.config.privateKey) {
+        decryptionKeys = await openpgp.readPrivateKey({ armoredKey: this.config.privateKey });
+        if (!decryptionKeys.isDecrypted() && this.config.privateKeyPassphrase) {
+          decryptionKeys = await openpgp.decryptKey({
+            privateKey: decryptionKeys,
+            passphrase: this.config.privateKeyPassphrase
+          });
+        }
+      } else if (!this.config.passphrase) {
+        throw new Error('A private key is required to decrypt backups encrypted with public keys');
+      }
+
+      const { data } = await openpgp.decrypt({
+        message,
+        format: 'binary',
+        decryptionKeys,
+        passwords: decryptionKeys ? undefined : [this.config.passphrase!]
+      });
+
+      await this.writeStream(data, outputPath);
+
+      console.log(`✅ Decrypted to ${basename(outputPath)}`);
+      return outputPath;
+    } catch (error) {
+      await fs.rm(outputPath, { force: true });
+      console.error(`❌ Error decrypting ${basename(encryptedPath)}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write an OpenPGP web stream to a file
+   */
+  private async writeStream(stream: ReadableStream<Uint8Array>, outputPath: string): Promise<void> {
+    await pipeline(
+      Readable.fromWeb(stream as NodeReadableStream<Uint8Array>),
+      createWriteStream(outputPath)
+    );
+  }
+}
+
+/**
+ * Whether a backup file name refers to an encrypted archive
+ */
+export function isEncryptedBackup(fileName: string): boolean {
+  return fileName.endsWith(ENCRYPTED_EXTENSION);
+}
@@ -0,0 +1,56 @@
+/**
+ * Values a folder template is filled with for one backup
+ */
+export interface FolderTemplateValues {
+  projectId: string;
+  projectName: string;
+  branchName: string;
+  databaseName: string;
+  mode: string;
+  date: Date; // Year, month and day are taken in UTC, like the timestamps in backup file names
+}
+
+const PLACEHOLDERS: Record<string, (values: FolderTemplateValues) => string> = {
+  project: values => values.projectName,
+  projectId: values => values.projectId,
+  branch: values => values.branchName,
+  database: values => values.databaseName,
+  mode: values => values.mode,
+  yyyy: values => String(values.date.getUTCFullYear()),
+  mm: values => String(values.date.getUTCMonth() + 1).padStart(2, '0'),
+  dd: values => String(values.date.getUTCDate()).padStart(2, '0')
+};
+
+export const FOLDER_PLACEHOLDERS = Object.keys(PLACEHOLDERS);
+
+/**
+ * Check a storage sub-folder template such as "{project}/{branch}/{yyyy}/{mm}" and return it normalized
+ */
+export function parseFolderTemplate(name: string, template: string): string {
+  const unknown = Array.from(template.matchAll(/\{([^}]*)\}/g))
+    .map(match => match[1])
+    .filter(placeholder => !FOLDER_PLACEHOLDERS.includes(placeholder));
+  if (unknown.length > 0) {
+    throw new Error(`${name} has unknown placeholder {${unknown[0]}}. Use ${FOLDER_PLACEHOLDERS.map(p => `{${p}}`).join(', ')}`);
+  }
+
+  const parts = template.split('/').map(part => part.trim()).filter(Boolean);
+  if (parts.includes('..')) {
+    throw new Error(`${name} must not contain '..'`);
+  }
+  return parts.join('/');
+}
+
+/**
+ * Fill in a folder template. A slash inside a value (branch names such as "preview/pr-12") becomes "_",
+ * so every placeholder stays a single folder level; empty values and dot names become "_" as well.
+ */
+export function expandFolderTemplate(template: string, values: FolderTemplateValues): string {
+  return template
+    .replace(/\{([^}]*)\}/g, (placeholder, key: string) =>
+      PLACEHOLDERS[key] ? PLACEHOLDERS[key](values).replace(/[/\\]/g, '_').replace(/^\.*$/, '_') : placeholder)
+    .split('/')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join('/');
+}
@@ -1,20 +1,37 @@
 import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
-import { createReadStream, statSync } from 'fs';
-import { join } from 'path';
+import { createWriteStream, statSync } from 'fs';
+import { basename } from 'path';
+import { Readable } from 'stream';
+import { DEFAULT_DRIVE_ENDPOINT, DriveResumableUpload } from './drive-resumable-upload';
+import { DriveFolderTree, SHARED_DRIVE_SUPPORT, checkSharedDrive, findOrCreateFolder, getBackupAppProperties } from './drive-folders';
+import { computeFileHashes } from './backup-service';
+import { BaseStorageProvider, StoredBackupFile, UploadResult } from './storage-provider';
+import { Retrier, isRetryableError } from './retry';
 
 export interface GoogleDriveOAuthConfig {
   clientId: string;
   clientSecret: string;
   refreshToken: string;
+  folderName?: string; // Folder name to create/use (default: 'neonbackups')
+  parentFolderId?: string; // Folder the backup folder is created in (default: top of the Shared Drive or My Drive)
+  sharedDriveId?: string; // Shared Drive holding the backups instead of the user's My Drive
+  endpoint?: string; // Drive API root (default: https://www.googleapis.com)
+  chunkSize?: number; // Bytes per resumable upload request (default: 8 MiB)
 }
 
-export class GoogleDriveOAuthService {
+export class GoogleDriveOAuthService extends BaseStorageProvider {
+  readonly name = 'Google Drive';
   private drive: any;
   private oauth2Client: OAuth2Client;
+  private resumableUpload: DriveResumableUpload;
   private backupFolderId: string | null = null;
+  private folders: DriveFolderTree | null = null;
+  private folderName: string;
+
+  constructor(private config: GoogleDriveOAuthConfig, retrier?: Retrier) {
+    super(retrier);
 
-  constructor(private config: GoogleDriveOAuthConfig) {
     this.oauth2Client = new google.auth.OAuth2(
       config.clientId,
       config.clientSecret,
@@ -25,7 +42,14 @@ export class GoogleDriveOAuthService {
       refresh_token: config.refreshToken,
     });
 
-    this.drive = google.drive({ version: 'v3', auth: this.oauth2Client });
+    const endpoint = config.endpoint || DEFAULT_DRIVE_ENDPOINT;
+    this.folderName = config.folderName || 'neonbackups';
+    this.drive = google.drive({ version: 'v3', auth: this.oauth2Client, rootUrl: `${endpoint.replace(/\/+$/, '')}/` });
+    this.resumableUpload = new DriveResumableUpload(this.oauth2Client, {
+      endpoint,
+      chunkSize: config.chunkSize,
+      retryPolicy: this.retrier.policy
+    });
   }
 
   async initialize(): Promise<void> {
@@ -35,9 +59,14 @@ export class GoogleDriveOAuthService {
       // Test the connection
       await this.drive.about.get({ fields: 'user' });
       console.log('✅ Google Drive OAuth authentication successful');
+
+      if (this.config.sharedDriveId) {
+        await checkSharedDrive(this.drive, this.config.sharedDriveId);
+      }
       
       // Find or create the backup folder
-      this.backupFolderId = await this.findOrCreateBackupFolder();
+      this.backupFolderId = await findOrCreateFolder(this.drive, this.folderName, this.config.parentFolderId, this.config.sharedDriveId);
+      this.folders = new DriveFolderTree(this.drive, this.backupFolderId, this.config.sharedDriveId);
       console.log(`✅ Google Drive initialized. Backup folder ID: ${this.backupFolderId}`);
     } catch (error) {
       console.error('❌ Failed to initialize Google Drive OAuth service:', error);
@@ -45,40 +74,16 @@ export class GoogleDriveOAuthService {
     }
   }
 
-  private async findOrCreateBackupFolder(): Promise<string> {
-    try {
-      // Search for existing neonbackups folder
-      const response = await this.drive.files.list({
-        q: "name='neonbackups' and mimeType='application/vnd.google-apps.folder' and trashed=false",
-        fields: 'files(id, name)',
-      });
-
-      if (response.data.files && response.data.files.length > 0) {
-        console.log(`📁 Found existing folder 'neonbackups': ${response.data.files[0].id}`);
-        return response.data.files[0].id;
-      }
-
-      // Create new folder
-      console.log(`📁 Creating new folder 'neonbackups'...`);
-      const folderResponse = await this.drive.files.create({
-        resource: {
-          name: 'neonbackups',
-          mimeType: 'application/vnd.google-apps.folder',
-        },
-        fields: 'id',
-      });
-
-      console.log(`✅ Created new folder 'neonbackups': ${folderResponse.data.id}`);
-      return folderResponse.data.id;
-    } catch (error) {
-      console.error('❌ Failed to find or create backup folder:', error);
-      throw error;
-    }
-  }
+  async uploadBackup(filePath: string, fileName?: string, description?: string, folder?: string, checksum?: string): Promise<UploadResult> {
+    const startTime = Date.now();
+    const originalName = fileName || basename(filePath);
 
-  async uploadBackup(filePath: string, originalName: string): Promise<any> {
-    if (!this.backupFolderId) {
-      throw new Error('Google Drive service not initialized');
+    if (!this.folders) {
+      return {
+        success: false,
+        fileName: originalName,
+        error: 'Google Drive service not initialized'
+      };
     }
 
     console.log(`📤 Uploading backup file: ${originalName}...`);
@@ -88,96 +93,135 @@ export class GoogleDriveOAuthService {
       const fileSizeInMB = fileStats.size / (1024 * 1024);
       console.log(`📊 File size: ${fileSizeInMB.toFixed(2)} MB`);
 
-      const response = await this.drive.files.create({
-        resource: {
-          name: originalName,
-          parents: [this.backupFolderId],
-        },
-        media: {
-          body: createReadStream(filePath),
-        },
-        fields: 'id, name, webViewLink, size',
+      const sha256 = checksum || (await computeFileHashes(filePath)).sha256;
+      const file = await this.resumableUpload.uploadFile(filePath, {
+        name: originalName,
+        parents: [await this.folders.resolve(folder)],
+        description,
+        appProperties: getBackupAppProperties(originalName, sha256),
       });
 
-      console.log(`✅ Upload completed: ${response.data.name} (${response.data.id})`);
-      return response.data;
+      console.log(`✅ Upload completed: ${file.name} (${file.id})`);
+      return {
+        success: true,
+        fileId: file.id,
+        fileName: file.name,
+        webViewLink: file.webViewLink || undefined,
+        checksum: sha256,
+        md5Checksum: file.md5Checksum || undefined,
+        duration: Date.now() - startTime,
+      };
     } catch (error) {
       console.error(`❌ Upload failed for ${originalName}:`, error);
-      throw error;
+      return {
+        success: false,
+        fileName: originalName,
+        error: error instanceof Error ? error.message : String(error),
+        retryable: isRetryableError(error),
+        duration: Date.now() - startTime,
+      };
     }
   }
 
-  async testConnection(): Promise<boolean> {
+  async uploadStream(stream: Readable, fileName: string, description?: string, folder?: string): Promise<UploadResult> {
+    const startTime = Date.now();
+
+    if (!this.folders) {
+      return {
+        success: false,
+        fileName,
+        error: 'Google Drive service not initialized'
+      };
+    }
+
+    console.log(`📤 Streaming backup file: ${fileName}...`);
+
     try {
-      await this.drive.about.get({ fields: 'user' });
-      return true;
+      const file = await this.resumableUpload.uploadStream(stream, {
+        name: fileName,
+        parents: [await this.folders.resolve(folder)],
+        description,
+        appProperties: getBackupAppProperties(fileName),
+      });
+
+      console.log(`✅ Streaming upload completed: ${file.name} (${file.id})`);
+      return {
+        success: true,
+        fileId: file.id,
+        fileName: file.name,
+        webViewLink: file.webViewLink,
+        checksum: file.sha256,
+        md5Checksum: file.md5Checksum,
+        duration: Date.now() - startTime,
+      };
     } catch (error) {
-      console.error('❌ Google Drive OAuth connection test failed:', error);
-      return false;
+      console.error(`❌ Streaming upload failed for ${fileName}:`, error);
+      return {
+        success: false,
+        fileName,
+        error: error instanceof Error ? error.message : String(error),
+        duration: Date.now() - startTime,
+      };
     }
   }
 
-  async uploadMultipleBackups(backupResults: any[]): Promise<{ successful: number; failed: number }> {
-    if (!this.backupFolderId) {
+  async listBackupFiles(maxResults?: number): Promise<StoredBackupFile[]> {
+    if (!this.folders) {
       throw new Error('Google Drive service not initialized');
     }
 
-    console.log('🚀 Starting upload process for backup files...');
-    
-    const successfulBackups = backupResults.filter(r => r.success);
-    console.log(`📤 Uploading ${successfulBackups.length} backup files to Google Drive...`);
-    
-    let successful = 0;
-    let failed = 0;
-
-    for (const backup of successfulBackups) {
-      try {
-        await this.uploadBackup(backup.filePath, backup.fileName);
-        successful++;
-      } catch (error) {
-        console.error(`❌ Failed to upload ${backup.fileName}:`, error);
-        failed++;
-      }
-    }
+    console.log('📋 Listing backup files in Google Drive...');
 
-    console.log(`\n📊 Upload Summary:`);
-    console.log(`   ✅ Successful uploads: ${successful}`);
-    console.log(`   ❌ Failed uploads: ${failed}`);
-    console.log(`   📁 Google Drive folder: neonbackups (${this.backupFolderId})`);
-
-    return { successful, failed };
+    try {
+      const files = await this.folders.listFiles(maxResults);
+      console.log(`📁 Found ${files.length} backup files in Google Drive`);
+      return files;
+    } catch (error) {
+      console.error('❌ Failed to list backup files:', error);
+      throw error;
+    }
   }
 
-  async cleanupOldBackups(daysToKeep: number = 30): Promise<void> {
-    if (!this.backupFolderId) {
-      throw new Error('Google Drive service not initialized');
-    }
+  async downloadBackup(fileId: string, destinationPath: string): Promise<void> {
+    console.log(`📥 Downloading backup file ${fileId} to ${destinationPath}...`);
 
-    console.log(`🧹 Cleaning up Google Drive backups older than ${daysToKeep} days...`);
-    
     try {
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
-      
-      const response = await this.drive.files.list({
-        q: `'${this.backupFolderId}' in parents and trashed=false`,
-        fields: 'files(id, name, createdTime)',
+      const response = await this.drive.files.get(
+        { fileId, alt: 'media', ...SHARED_DRIVE_SUPPORT },
+        { responseType: 'stream' }
+      );
+
+      await new Promise<void>((resolve, reject) => {
+        response.data
+          .on('error', reject)
+          .pipe(createWriteStream(destinationPath))
+          .on('error', reject)
+          .on('finish', () => resolve());
       });
 
-      const oldFiles = response.data.files?.filter((file: any) => {
-        const createdDate = new Date(file.createdTime);
-        return createdDate < cutoffDate;
-      }) || [];
-
-      for (const file of oldFiles) {
-        await this.drive.files.delete({ fileId: file.id });
-        console.log(`🗑️ Deleted old backup: ${file.name}`);
-      }
-
-      console.log(`✅ Cleanup completed. Deleted ${oldFiles.length} old backup files from Google Drive.`);
+      const fileSizeInMB = statSync(destinationPath).size / (1024 * 1024);
+      console.log(`✅ Download completed: ${fileSizeInMB.toFixed(2)} MB`);
     } catch (error) {
-      console.error('❌ Failed to cleanup old backups:', error);
+      console.error(`❌ Download failed for ${fileId}:`, error);
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.drive.about.get({ fields: 'user' });
+      return true;
+    } catch (error) {
+      console.error('❌ Google Drive OAuth connection test failed:', error);
+      return false;
+    }
+  }
+
+  async deleteBackup(fileId: string): Promise<void> {
+    await this.drive.files.delete({ fileId, ...SHARED_DRIVE_SUPPORT });
+  }
+
+  protected describeLocation(): string {
+    return `${this.folderName} (${this.backupFolderId})${this.config.sharedDriveId ? ` in Shared Drive ${this.config.sharedDriveId}` : ''}`;
+  }
+}
@@ -1,44 +1,56 @@
 import { google, drive_v3 } from 'googleapis';
 import { promises as fs } from 'fs';
 import { basename } from 'path';
-import { BackupResult } from './backup-service';
+import { Readable } from 'stream';
+import { DEFAULT_DRIVE_ENDPOINT, DriveFileMetadata, DriveResumableUpload } from './drive-resumable-upload';
+import { DriveFolderTree, SHARED_DRIVE_SUPPORT, checkSharedDrive, findOrCreateFolder, getBackupAppProperties, getDriveScope, getListScope } from './drive-folders';
+import { computeFileHashes } from './backup-service';
+import { BaseStorageProvider, StoredBackupFile, UploadResult } from './storage-provider';
+import { Retrier, isRetryableError } from './retry';
 
 export interface GoogleDriveConfig {
   credentials: string; // JSON string of service account credentials
-  parentFolderId?: string; // Optional parent folder ID
+  parentFolderId?: string; // Folder the backup folder is created in (default: top of the Shared Drive or My Drive)
+  sharedDriveId?: string; // Shared Drive holding the backups instead of the service account's own My Drive
   folderName?: string; // Folder name to create/use (default: 'neonbackups')
+  endpoint?: string; // Drive API root (default: https://www.googleapis.com)
+  chunkSize?: number; // Bytes per resumable upload request (default: 8 MiB)
 }
 
-export interface UploadResult {
-  success: boolean;
-  fileId?: string;
-  fileName?: string;
-  webViewLink?: string;
-  error?: string;
-  duration?: number;
-}
-
-export class GoogleDriveService {
+export class GoogleDriveService extends BaseStorageProvider {
+  readonly name = 'Google Drive';
   private drive: drive_v3.Drive;
+  private resumableUpload: DriveResumableUpload;
   private parentFolderId?: string;
+  private sharedDriveId?: string;
   private backupFolderId?: string;
+  private folders?: DriveFolderTree;
   private folderName: string;
 
-  constructor(config: GoogleDriveConfig) {
+  constructor(config: GoogleDriveConfig, retrier?: Retrier) {
+    super(retrier);
+
     // Parse credentials
     const credentials = JSON.parse(config.credentials);
     
-    // Create JWT auth client
+    // Create JWT auth client; folders the service account did not create itself are only reachable with the full scope
     const auth = new google.auth.JWT(
       credentials.client_email,
       undefined,
       credentials.private_key,
-      ['https://www.googleapis.com/auth/drive.file']
+      [getDriveScope(config.parentFolderId, config.sharedDriveId)]
     );
 
     // Create Drive API client
-    this.drive = google.drive({ version: 'v3', auth });
+    const endpoint = config.endpoint || DEFAULT_DRIVE_ENDPOINT;
+    this.drive = google.drive({ version: 'v3', auth, rootUrl: `${endpoint.replace(/\/+$/, '')}/` });
+    this.resumableUpload = new DriveResumableUpload(auth, {
+      endpoint,
+      chunkSize: config.chunkSize,
+      retryPolicy: this.retrier.policy
+    });
     this.parentFolderId = config.parentFolderId;
+    this.sharedDriveId = config.sharedDriveId;
     this.folderName = config.folderName || 'neonbackups';
   }
 
@@ -48,9 +60,14 @@ export class GoogleDriveService {
   async initialize(): Promise<void> {
     try {
       console.log('🔗 Initializing Google Drive service...');
+
+      if (this.sharedDriveId) {
+        await checkSharedDrive(this.drive, this.sharedDriveId);
+      }
       
       // Find or create the backup folder
-      this.backupFolderId = await this.findOrCreateFolder(this.folderName, this.parentFolderId);
+      this.backupFolderId = await findOrCreateFolder(this.drive, this.folderName, this.parentFolderId, this.sharedDriveId);
+      this.folders = new DriveFolderTree(this.drive, this.backupFolderId, this.sharedDriveId);
       
       console.log(`✅ Google Drive initialized. Backup folder ID: ${this.backupFolderId}`);
     } catch (error) {
@@ -59,59 +76,13 @@ export class GoogleDriveService {
     }
   }
 
-  /**
-   * Find a folder by name, or create it if it doesn't exist
-   */
-  private async findOrCreateFolder(folderName: string, parentId?: string): Promise<string> {
-    try {
-      // Search for existing folder
-      const query = parentId 
-        ? `name='${folderName}' and '${parentId}' in parents and mimeType='application/vnd.google-apps.folder' and trashed=false`
-        : `name='${folderName}' and mimeType='application/vnd.google-apps.folder' and trashed=false`;
-
-      const searchResponse = await this.drive.files.list({
-        q: query,
-        fields: 'files(id, name)',
-        spaces: 'drive'
-      });
-
-      if (searchResponse.data.files && searchResponse.data.files.length > 0) {
-        const folderId = searchResponse.data.files[0].id!;
-        console.log(`📁 Found existing folder '${folderName}': ${folderId}`);
-        return folderId;
-      }
-
-      // Create new folder if not found
-      console.log(`📁 Creating new folder '${folderName}'...`);
-      
-      const folderMetadata: drive_v3.Schema$File = {
-        name: folderName,
-        mimeType: 'application/vnd.google-apps.folder',
-        parents: parentId ? [parentId] : undefined
-      };
-
-      const createResponse = await this.drive.files.create({
-        requestBody: folderMetadata,
-        fields: 'id'
-      });
-
-      const folderId = createResponse.data.id!;
-      console.log(`✅ Created new folder '${folderName}': ${folderId}`);
-      return folderId;
-
-    } catch (error) {
-      console.error(`❌ Error finding/creating folder '${folderName}':`, error);
-      throw error;
-    }
-  }
-
   /**
    * Upload a backup file to Google Drive
    */
-  async uploadBackup(filePath: string, fileName?: string): Promise<UploadResult> {
+  async uploadBackup(filePath: string, fileName?: string, description?: string, folder?: string, checksum?: string): Promise<UploadResult> {
     const startTime = Date.now();
     
-    if (!this.backupFolderId) {
+    if (!this.folders) {
       return {
         success: false,
         error: 'Google Drive service not initialized. Call initialize() first.'
@@ -131,29 +102,22 @@ export class GoogleDriveService {
       
       console.log(`📊 File size: ${this.formatFileSize(fileSize)}`);
 
+      const sha256 = checksum || (await computeFileHashes(filePath)).sha256;
+
       // Create file metadata
-      const fileMetadata: drive_v3.Schema$File = {
+      const fileMetadata: DriveFileMetadata = {
         name: actualFileName,
-        parents: [this.backupFolderId],
-        description: `Neon database backup created on ${new Date().toISOString()}`
+        parents: [await this.folders.resolve(folder)],
+        description: description || `Neon database backup created on ${new Date().toISOString()}`,
+        appProperties: getBackupAppProperties(actualFileName, sha256)
       };
 
-      // Create read stream
-      const media = {
-        mimeType: 'application/octet-stream',
-        body: require('fs').createReadStream(filePath)
-      };
-
-      // Upload file
-      const response = await this.drive.files.create({
-        requestBody: fileMetadata,
-        media: media,
-        fields: 'id, name, webViewLink, size'
-      });
+      // Upload file in chunks through a resumable session
+      const file = await this.resumableUpload.uploadFile(filePath, fileMetadata);
 
       const duration = Date.now() - startTime;
-      const fileId = response.data.id!;
-      const webViewLink = response.data.webViewLink;
+      const fileId = file.id;
+      const webViewLink = file.webViewLink;
 
       console.log(`✅ Upload completed: ${actualFileName} (ID: ${fileId}) in ${duration}ms`);
 
@@ -162,6 +126,8 @@ export class GoogleDriveService {
         fileId,
         fileName: actualFileName,
         webViewLink: webViewLink || undefined,
+        checksum: sha256,
+        md5Checksum: file.md5Checksum || undefined,
         duration
       };
 
@@ -173,82 +139,72 @@ export class GoogleDriveService {
         success: false,
         fileName: actualFileName,
         error: error instanceof Error ? error.message : String(error),
+        retryable: isRetryableError(error),
         duration
       };
     }
   }
 
   /**
-   * Upload multiple backup files
+   * Upload a stream of unknown length to Google Drive through a resumable upload session
    */
-  async uploadMultipleBackups(backupResults: BackupResult[]): Promise<UploadResult[]> {
-    console.log(`🚀 Starting upload process for backup files...`);
-    
-    if (!this.backupFolderId) {
-      await this.initialize();
-    }
+  async uploadStream(stream: Readable, fileName: string, description?: string, folder?: string): Promise<UploadResult> {
+    const startTime = Date.now();
 
-    const uploadResults: UploadResult[] = [];
-    const successfulBackups = backupResults.filter(result => result.success && result.filePath);
+    if (!this.folders) {
+      return {
+        success: false,
+        fileName,
+        error: 'Google Drive service not initialized. Call initialize() first.'
+      };
+    }
 
-    console.log(`📤 Uploading ${successfulBackups.length} backup files to Google Drive...`);
+    console.log(`📤 Streaming backup file: ${fileName}...`);
 
-    for (const backup of successfulBackups) {
-      if (!backup.filePath) {
-        uploadResults.push({
-          success: false,
-          fileName: backup.fileName,
-          error: 'No file path provided'
-        });
-        continue;
-      }
+    try {
+      const file = await this.resumableUpload.uploadStream(stream, {
+        name: fileName,
+        parents: [await this.folders.resolve(folder)],
+        description: description || `Neon database backup created on ${new Date().toISOString()}`,
+        appProperties: getBackupAppProperties(fileName)
+      });
 
-      try {
-        const result = await this.uploadBackup(backup.filePath, backup.fileName);
-        uploadResults.push(result);
-        
-        // Add a small delay between uploads to avoid rate limiting
-        await this.sleep(500);
-      } catch (error) {
-        console.error(`❌ Unexpected error uploading ${backup.fileName}:`, error);
-        uploadResults.push({
-          success: false,
-          fileName: backup.fileName,
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
-    }
+      const duration = Date.now() - startTime;
+      console.log(`✅ Streaming upload completed: ${fileName} (ID: ${file.id}) in ${duration}ms`);
 
-    const successCount = uploadResults.filter(r => r.success).length;
-    const failureCount = uploadResults.length - successCount;
-    
-    console.log(`\n📊 Upload Summary:`);
-    console.log(`   ✅ Successful uploads: ${successCount}`);
-    console.log(`   ❌ Failed uploads: ${failureCount}`);
-    console.log(`   📁 Google Drive folder: ${this.folderName} (${this.backupFolderId})`);
+      return {
+        success: true,
+        fileId: file.id,
+        fileName,
+        webViewLink: file.webViewLink,
+        checksum: file.sha256,
+        md5Checksum: file.md5Checksum,
+        duration
+      };
+    } catch (error) {
+      console.error(`❌ Streaming upload failed for ${fileName}:`, error);
 
-    return uploadResults;
+      return {
+        success: false,
+        fileName,
+        error: error instanceof Error ? error.message : String(error),
+        duration: Date.now() - startTime
+      };
+    }
   }
 
   /**
-   * List backup files in the Google Drive folder
+   * List backup files in the Google Drive folder and its sub-folders, all of them unless maxResults is given
    */
-  async listBackupFiles(maxResults: number = 100): Promise<drive_v3.Schema$File[]> {
-    if (!this.backupFolderId) {
+  async listBackupFiles(maxResults?: number): Promise<StoredBackupFile[]> {
+    if (!this.folders) {
       await this.initialize();
     }
 
     try {
       console.log('📋 Listing backup files in Google Drive...');
       
-      const response = await this.drive.files.list({
-        q: `'${this.backupFolderId}' in parents and trashed=false`,
-        fields: 'files(id, name, size, createdTime, modifiedTime, webViewLink)',
-        orderBy: 'createdTime desc',
-        pageSize: maxResults
-      });
-
-      const files = response.data.files || [];
+      const files = await this.folders!.listFiles(maxResults);
       console.log(`📁 Found ${files.length} backup files in Google Drive`);
       
       return files;
@@ -259,48 +215,41 @@ export class GoogleDriveService {
   }
 
   /**
-   * Delete old backup files from Google Drive
+   * Download a backup file from Google Drive to a local path
    */
-  async cleanupOldBackups(retentionDays: number = 30): Promise<void> {
-    if (!this.backupFolderId) {
-      await this.initialize();
-    }
-
+  async downloadBackup(fileId: string, destinationPath: string): Promise<void> {
     try {
-      console.log(`🧹 Cleaning up Google Drive backups older than ${retentionDays} days...`);
-      
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
-      const cutoffDateString = cutoffDate.toISOString();
-
-      const response = await this.drive.files.list({
-        q: `'${this.backupFolderId}' in parents and createdTime < '${cutoffDateString}' and trashed=false`,
-        fields: 'files(id, name, createdTime)',
-        orderBy: 'createdTime asc'
+      console.log(`📥 Downloading backup file ${fileId} to ${destinationPath}...`);
+
+      const response = await this.drive.files.get(
+        { fileId, alt: 'media', ...SHARED_DRIVE_SUPPORT },
+        { responseType: 'stream' }
+      );
+
+      await new Promise<void>((resolve, reject) => {
+        const output = require('fs').createWriteStream(destinationPath);
+        response.data
+          .on('error', reject)
+          .pipe(output)
+          .on('error', reject)
+          .on('finish', () => resolve());
       });
 
-      const oldFiles = response.data.files || [];
-      let deletedCount = 0;
-
-      for (const file of oldFiles) {
-        try {
-          await this.drive.files.delete({ fileId: file.id! });
-          console.log(`🗑️  Deleted old backup: ${file.name} (${file.createdTime})`);
-          deletedCount++;
-          
-          // Add small delay to avoid rate limiting
-          await this.sleep(100);
-        } catch (error) {
-          console.error(`❌ Error deleting file ${file.name}:`, error);
-        }
-      }
-
-      console.log(`✅ Cleanup completed. Deleted ${deletedCount} old backup files from Google Drive.`);
+      const stats = await fs.stat(destinationPath);
+      console.log(`✅ Download completed: ${basename(destinationPath)} (${this.formatFileSize(stats.size)})`);
     } catch (error) {
-      console.error('❌ Error during Google Drive cleanup:', error);
+      console.error(`❌ Error downloading backup file ${fileId}:`, error);
+      throw error;
     }
   }
 
+  /**
+   * Delete a backup file from Google Drive
+   */
+  async deleteBackup(fileId: string): Promise<void> {
+    await this.drive.files.delete({ fileId, ...SHARED_DRIVE_SUPPORT });
+  }
+
   /**
    * Get backup folder information
    */
@@ -312,7 +261,8 @@ export class GoogleDriveService {
     try {
       const response = await this.drive.files.get({
         fileId: this.backupFolderId!,
-        fields: 'id, name, createdTime, modifiedTime, webViewLink, parents'
+        fields: 'id, name, createdTime, modifiedTime, webViewLink, parents',
+        ...SHARED_DRIVE_SUPPORT
       });
 
       return response.data;
@@ -322,23 +272,6 @@ export class GoogleDriveService {
     }
   }
 
-  /**
-   * Utility function to format file size
-   */
-  private formatFileSize(bytes: number): string {
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    if (bytes === 0) return '0 Bytes';
-    const i = Math.floor(Math.log(bytes) / Math.log(1024));
-    return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
-  }
-
-  /**
-   * Utility function for delays
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Test Google Drive connection
    */
@@ -348,7 +281,8 @@ export class GoogleDriveService {
       
       const response = await this.drive.files.list({
         pageSize: 1,
-        fields: 'files(id, name)'
+        fields: 'files(id, name)',
+        ...getListScope(this.sharedDriveId)
       });
 
       console.log('✅ Google Drive connection successful');
@@ -358,4 +292,11 @@ export class GoogleDriveService {
       return false;
     }
   }
+
+  /**
+   * Location shown in upload summaries
+   */
+  protected describeLocation(): string {
+    return `${this.folderName} (${this.backupFolderId})${this.sharedDriveId ? ` in Shared Drive ${this.sharedDriveId}` : ''}`;
+  }
 }
\ No newline at end of file
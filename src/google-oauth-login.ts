@@ -0,0 +1,124 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
+
+export interface LoopbackLoginOptions {
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  port?: number; // Loopback port for the redirect (default: any free port); Desktop app clients accept every port
+  timeoutMs?: number; // How long to wait for the browser (default: 5 minutes)
+  onAuthorizeUrl?: (url: string) => void; // Shows the consent page URL to the user
+}
+
+export interface LoopbackLoginResult {
+  refreshToken: string;
+  scope: string; // Scopes actually granted
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Installed-app OAuth flow with a loopback redirect: serve http://127.0.0.1:<port>, send the user to Google's
+ * consent page, and exchange the code Google redirects back with for tokens. PKCE and a state value protect the
+ * exchange from other local processes. The client must be an OAuth client of type "Desktop app".
+ */
+export async function loginWithLoopback(options: LoopbackLoginOptions): Promise<LoopbackLoginResult> {
+  const server = createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+
+  try {
+    const redirectUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const client = new OAuth2Client(options.clientId, options.clientSecret, redirectUri);
+    const { codeVerifier, codeChallenge } = await client.generateCodeVerifierAsync();
+    const state = randomBytes(16).toString('hex');
+
+    const code = waitForRedirect(server, state, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    options.onAuthorizeUrl?.(client.generateAuthUrl({
+      access_type: 'offline',
+      prompt: 'consent', // Google only returns a refresh token when the user consents again
+      scope: options.scope,
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: CodeChallengeMethod.S256
+    }));
+
+    const { tokens } = await client.getToken({ code: await code, codeVerifier, redirect_uri: redirectUri });
+    if (!tokens.refresh_token) {
+      throw new Error('Google returned no refresh token. Remove the app at https://myaccount.google.com/permissions and try again');
+    }
+    return { refreshToken: tokens.refresh_token, scope: tokens.scope || options.scope };
+  } finally {
+    server.close();
+  }
+}
+
+/**
+ * Set or add a KEY=value line in a .env file, keeping every other line; the file is only readable by its owner
+ */
+export async function saveEnvValue(filePath: string, key: string, value: string): Promise<void> {
+  let lines: string[] = [];
+  try {
+    const content = (await fs.readFile(filePath, 'utf8')).replace(/\r?\n$/, '');
+    lines = content ? content.split(/\r?\n/) : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  const line = `${key}=${value}`;
+  const index = lines.findIndex(existing => new RegExp(`^\\s*(export\\s+)?${key}\\s*=`).test(existing));
+  if (index >= 0) {
+    lines[index] = line;
+  } else {
+    lines.push(line);
+  }
+
+  await fs.writeFile(filePath, lines.join('\n') + '\n', { mode: 0o600 });
+  await fs.chmod(filePath, 0o600);
+}
+
+/**
+ * Resolve to the authorization code of the first redirect carrying our state; requests for anything else get a 404
+ */
+function waitForRedirect(server: Server, state: string, timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      server.off('request', onRequest);
+      reject(new Error(`No authorization received within ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+
+    function onRequest(request: IncomingMessage, response: ServerResponse): void {
+      const url = new URL(request.url || '/', 'http://127.0.0.1');
+      const code = url.searchParams.get('code');
+      const error = url.searchParams.get('error');
+      if (url.searchParams.get('state') !== state || (!code && !error)) {
+        respond(response, 404, 'Not found');
+        return;
+      }
+
+      clearTimeout(timer);
+      server.off('request', onRequest);
+      if (error) {
+        respond(response, 400, `Authorization failed: ${error}. You can close this tab.`);
+        reject(new Error(`Google authorization failed: ${error}`));
+      } else {
+        respond(response, 200, 'Authorization received. You can close this tab and return to the terminal.');
+        resolve(code!);
+      }
+    }
+
+    server.on('request', onRequest);
+  });
+}
+
+function respond(response: ServerResponse, status: number, message: string): void {
+  response.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8', Connection: 'close' });
+  response.end(message);
+}
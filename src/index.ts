@@ -1,23 +1,193 @@
 import * as core from '@actions/core';
 import { config } from 'dotenv';
+import { promises as fs } from 'fs';
+import { basename } from 'path';
 import { NeonDiscoveryService } from './neon-discovery';
-import { DatabaseBackupService } from './backup-service';
+import {
+  BACKUP_MODES,
+  BackupMode,
+  BackupOptions,
+  DUMP_FORMATS,
+  DatabaseBackupService,
+  DumpFormat,
+  isPartialDump,
+  parseBackupFileName,
+  parseBackupMode
+} from './backup-service';
+import { BackupVerificationService } from './verification-service';
+import { BackupEncryptionService, ENCRYPTED_EXTENSION, EncryptionConfig } from './encryption-service';
 import { GoogleDriveService } from './google-drive-service';
 import { GoogleDriveOAuthService } from './google-drive-oauth';
+import { LocalStorageService } from './local-storage-service';
+import { S3StorageService } from './s3-storage-service';
+import { StorageProvider, StoredBackupFile, UploadResult } from './storage-provider';
+import { BackupResult, HashingStream, describeBackup, findLatestBackups } from './backup-service';
+import { DatabaseActivity, SkippedResource } from './neon-discovery';
+import { ActivityWindow, describeActivityWindow, parseActivityWindow } from './activity-window';
+import { CleanupOptions, RetentionPolicy, parseRetentionPolicy } from './retention-policy';
+import { RunReport, RunReportTimings, createRunReport, writeRunReport } from './run-report';
+import { DEFAULT_RETRY_POLICY, RETRY_SCOPE_LABELS, Retrier, RetryPolicy, RetryScope } from './retry';
+import { BackupPlan, PlannedBackup, createBackupPlan, writeBackupPlan } from './backup-plan';
+import { publishActionOutputs, publishPlanOutputs } from './action-outputs';
+import { KeyedSemaphore, Semaphore } from './concurrency';
+import { ResourceFilter, ResourceFilterConfig, parsePatternList, parseSelectorList } from './resource-filter';
+import { ConfigFile, DumpSettings, ResourceOverride, getScopedFilters, loadConfigFile, mergeFilterConfig } from './config-file';
+import { ResolvedOverride, ResourceOverrides } from './resource-overrides';
+import { expandFolderTemplate, parseFolderTemplate } from './folder-template';
+import { BackupCatalogService, CATALOG_FILE_NAME } from './backup-catalog';
+import { CompressionSettings, parseCompressionCodec, resolveCompression } from './compression';
+import { NotificationConfig, NotificationService, NotifyOn, createNotifiers, parseNotifyOn } from './notifications';
 
 // Load environment variables from .env file (for local development)
 config();
 
-interface BackupConfiguration {
-  neonApiKey: string;
+export type StorageBackend = 'google-drive' | 'local' | 's3';
+
+export interface StorageConfiguration {
+  storageBackend: StorageBackend;
   googleDriveCredentials?: string; // Service account credentials (optional)
   googleClientId?: string; // OAuth client ID (optional)
   googleClientSecret?: string; // OAuth client secret (optional)  
   googleRefreshToken?: string; // OAuth refresh token (optional)
-  retentionDays: number;
+  googleDriveFolderName?: string; // Backup folder in Drive (default: neonbackups)
+  googleDriveParentFolderId?: string; // Folder the backup folder is created in
+  googleDriveSharedDriveId?: string; // Shared Drive instead of the account's My Drive
+  googleDriveEndpoint?: string; // Drive API root, e.g. a local stand-in for testing
+  googleDriveChunkSize?: number; // Bytes per resumable upload request
+  localStorageDir?: string; // Target directory for the local backend
+  folderTemplate?: string; // Sub-folder of each backup below the backup location, e.g. "{project}/{branch}/{yyyy}/{mm}"
+  s3Bucket?: string;
+  s3Region?: string;
+  s3Endpoint?: string; // Custom endpoint for S3-compatible stores (MinIO, ...)
+  s3AccessKeyId?: string;
+  s3SecretAccessKey?: string;
+  s3Prefix?: string;
+}
+
+export interface BackupConfiguration extends StorageConfiguration {
+  neonApiKey: string;
+  activityWindow: ActivityWindow;
   outputDir: string;
   cleanupOldBackups: boolean;
   cleanupRetentionDays: number;
+  retentionPolicy?: RetentionPolicy; // Replaces the age-based cleanup when set
+  modeRetentionPolicies: Partial<Record<BackupMode, RetentionPolicy>>; // Policies of the schema-only and data-only tiers
+  verifyScratchUrl?: string; // Disposable Postgres used to test-restore every backup
+  encryption?: EncryptionConfig; // Encrypt archives before upload when set
+  streamingUploads: boolean; // Pipe pg_dump output straight into storage instead of writing files first
+  filters: ResourceFilterConfig; // Include/exclude rules and force selectors for discovery
+  concurrency: {
+    dumps: number; // pg_dump processes running at the same time
+    dumpsPerProject: number; // Cap per Neon project
+    uploads: number; // Uploads running at the same time
+  };
+  dump: DumpSettings; // pg_dump settings for every branch without an override
+  compression: CompressionSettings; // Codec and level for every branch without an override
+  overrides: ResourceOverride[]; // Per-project/branch settings from the config file
+  scheduleTier?: string; // Branches with a different schedule tier are skipped by this run
+  notifications: NotificationConfig; // Channels told about the outcome of each run
+  retry: RetryPolicy; // Applied to Neon API calls, pg_dump and uploads
+  dryRun: boolean; // Only plan the backups and cleanup, see planBackupProcess
+}
+
+/**
+ * Create the storage backend selected by the configuration; uploads are retried under `retrier`'s policy
+ */
+export function createStorageProvider(config: StorageConfiguration, retrier?: Retrier): StorageProvider {
+  switch (config.storageBackend) {
+    case 'local':
+      if (!config.localStorageDir) {
+        throw new Error('LOCAL_STORAGE_DIR is required for the local storage backend');
+      }
+      return new LocalStorageService({ directory: config.localStorageDir }, retrier);
+
+    case 's3':
+      if (!config.s3Bucket) {
+        throw new Error('S3_BUCKET is required for the S3 storage backend');
+      }
+      return new S3StorageService({
+        bucket: config.s3Bucket,
+        region: config.s3Region,
+        endpoint: config.s3Endpoint,
+        accessKeyId: config.s3AccessKeyId,
+        secretAccessKey: config.s3SecretAccessKey,
+        prefix: config.s3Prefix
+      }, retrier);
+
+    case 'google-drive':
+      // Choose authentication method
+      if (config.googleDriveCredentials) {
+        // Use service account
+        return new GoogleDriveService({
+          credentials: config.googleDriveCredentials,
+          folderName: config.googleDriveFolderName,
+          parentFolderId: config.googleDriveParentFolderId,
+          sharedDriveId: config.googleDriveSharedDriveId,
+          endpoint: config.googleDriveEndpoint,
+          chunkSize: config.googleDriveChunkSize
+        }, retrier);
+      } else if (config.googleClientId && config.googleClientSecret && config.googleRefreshToken) {
+        // Use OAuth
+        return new GoogleDriveOAuthService({
+          clientId: config.googleClientId,
+          clientSecret: config.googleClientSecret,
+          refreshToken: config.googleRefreshToken,
+          folderName: config.googleDriveFolderName,
+          parentFolderId: config.googleDriveParentFolderId,
+          sharedDriveId: config.googleDriveSharedDriveId,
+          endpoint: config.googleDriveEndpoint,
+          chunkSize: config.googleDriveChunkSize
+        }, retrier);
+      }
+      throw new Error('Either Google Service Account credentials or OAuth credentials must be provided');
+
+    default:
+      throw new Error(`Unknown storage backend '${config.storageBackend}'. Use google-drive, local or s3`);
+  }
+}
+
+/**
+ * Read the storage settings from environment variables or GitHub Actions inputs, falling back to the config file
+ */
+export function getStorageConfiguration(file: ConfigFile = {}): StorageConfiguration {
+  const chunkSizeMb = parsePositiveInteger('GOOGLE_DRIVE_CHUNK_SIZE_MB', getInput('GOOGLE_DRIVE_CHUNK_SIZE_MB', false)) ??
+    file.storage?.googleDrive?.chunkSizeMb;
+  const folderTemplate = getInput('FOLDER_TEMPLATE', false) || file.storage?.folderTemplate;
+  return {
+    storageBackend: (getInput('STORAGE_BACKEND', false) || file.storage?.backend || 'google-drive') as StorageBackend,
+    googleDriveCredentials: getInput('GOOGLE_DRIVE_CREDENTIALS', false),
+    googleClientId: getInput('GOOGLE_CLIENT_ID', false),
+    googleClientSecret: getInput('GOOGLE_CLIENT_SECRET', false),
+    googleRefreshToken: getInput('GOOGLE_REFRESH_TOKEN', false),
+    googleDriveFolderName: getInput('GOOGLE_DRIVE_FOLDER', false) || file.storage?.googleDrive?.folderName,
+    googleDriveParentFolderId: getInput('GOOGLE_DRIVE_PARENT_FOLDER_ID', false) || file.storage?.googleDrive?.parentFolderId,
+    googleDriveSharedDriveId: getInput('GOOGLE_DRIVE_SHARED_DRIVE_ID', false) || file.storage?.googleDrive?.sharedDriveId,
+    googleDriveEndpoint: getInput('GOOGLE_DRIVE_ENDPOINT', false) || file.storage?.googleDrive?.endpoint,
+    googleDriveChunkSize: chunkSizeMb && chunkSizeMb * 1024 * 1024,
+    localStorageDir: getInput('LOCAL_STORAGE_DIR', false) || file.storage?.localDirectory,
+    folderTemplate: folderTemplate ? parseFolderTemplate('FOLDER_TEMPLATE', folderTemplate) : undefined,
+    s3Bucket: getInput('S3_BUCKET', false) || file.storage?.s3?.bucket,
+    s3Region: getInput('S3_REGION', false) || file.storage?.s3?.region,
+    s3Endpoint: getInput('S3_ENDPOINT', false) || file.storage?.s3?.endpoint,
+    s3AccessKeyId: getInput('S3_ACCESS_KEY_ID', false),
+    s3SecretAccessKey: getInput('S3_SECRET_ACCESS_KEY', false),
+    s3Prefix: getInput('S3_PREFIX', false) || file.storage?.s3?.prefix || undefined
+  };
+}
+
+/**
+ * Results collected while a backup run progresses, turned into the run report at the end
+ */
+interface RunState {
+  startedAt: Date;
+  discovered: DatabaseActivity[];
+  skipped: SkippedResource[]; // Skipped after discovery, e.g. by the schedule tier
+  backupResults: BackupResult[];
+  uploadResults: UploadResult[];
+  deletedFiles: StoredBackupFile[];
+  catalogHead?: string;
+  timings: Omit<RunReportTimings, 'totalMs'>;
+  error?: string;
 }
 
 /**
@@ -27,45 +197,62 @@ export class NeonBackupOrchestrator {
   private config: BackupConfiguration;
   private discoveryService: NeonDiscoveryService;
   private backupService: DatabaseBackupService;
-  private driveService: GoogleDriveService | GoogleDriveOAuthService;
+  private storageProvider: StorageProvider;
+  private verificationService?: BackupVerificationService;
+  private encryptionService?: BackupEncryptionService;
+  private overrideEncryptionServices = new Map<string, BackupEncryptionService>(); // Keyed by public keys
+  private overrides: ResourceOverrides;
+  private notificationService: NotificationService;
+  private uploadSlots: Semaphore;
+  private retrier: Retrier;
 
   constructor(config: BackupConfiguration) {
     this.config = config;
+    this.retrier = new Retrier(config.retry);
+    this.uploadSlots = new Semaphore(config.concurrency.uploads);
+    this.overrides = new ResourceOverrides(config.overrides);
+    this.notificationService = new NotificationService(createNotifiers(config.notifications));
     
     // Initialize services
     this.discoveryService = new NeonDiscoveryService(
       config.neonApiKey, 
-      config.retentionDays
+      config.activityWindow,
+      new ResourceFilter(config.filters),
+      this.retrier
     );
     
-    this.backupService = new DatabaseBackupService(config.outputDir);
+    this.backupService = new DatabaseBackupService(config.outputDir, {}, this.retrier);
     
-    // Choose authentication method
-    if (config.googleDriveCredentials) {
-      // Use service account
-      this.driveService = new GoogleDriveService({
-        credentials: config.googleDriveCredentials,
-        folderName: 'neonbackups'
-      });
-    } else if (config.googleClientId && config.googleClientSecret && config.googleRefreshToken) {
-      // Use OAuth
-      this.driveService = new GoogleDriveOAuthService({
-        clientId: config.googleClientId,
-        clientSecret: config.googleClientSecret,
-        refreshToken: config.googleRefreshToken
-      });
-    } else {
-      throw new Error('Either Google Service Account credentials or OAuth credentials must be provided');
+    // Choose storage backend
+    this.storageProvider = createStorageProvider(config, this.retrier);
+    
+    if (config.verifyScratchUrl) {
+      this.verificationService = new BackupVerificationService(config.verifyScratchUrl, this.backupService);
+    }
+    
+    // A private key alone only decrypts, it is used by restore
+    if (config.encryption?.passphrase || config.encryption?.publicKeys) {
+      this.encryptionService = new BackupEncryptionService(config.encryption);
     }
   }
 
   /**
    * Run the complete backup process
    */
-  async runBackupProcess(): Promise<void> {
+  async runBackupProcess(): Promise<RunReport> {
     console.log('🚀 Starting Neon Database Backup Process');
     console.log('================================================');
     
+    const run: RunState = {
+      startedAt: new Date(),
+      discovered: [],
+      skipped: [],
+      backupResults: [],
+      uploadResults: [],
+      deletedFiles: [],
+      timings: {}
+    };
+    
     try {
       // Step 1: Test connections
       console.log('\n📡 Testing connections...');
@@ -73,16 +260,42 @@ export class NeonBackupOrchestrator {
       
       // Step 2: Discover active resources
       console.log('\n🔍 Discovering active Neon resources...');
-      const activeResources = await this.discoveryService.discoverActiveResources();
+      let stageStart = Date.now();
+      const activeResources = this.applyScheduleTier(
+        await this.discoveryService.discoverActiveResources(await this.getLatestBackups()),
+        run.skipped
+      );
+      run.discovered = activeResources;
+      run.timings.discoveryMs = Date.now() - stageStart;
       
       if (activeResources.length === 0) {
         console.log('ℹ️  No active resources found. No backups needed.');
-        return;
+        return await this.completeRun(run);
       }
       
-      // Step 3: Create backups
-      console.log(`\n💾 Creating backups for ${activeResources.length} resources...`);
-      const backupResults = await this.backupService.createMultipleBackups(activeResources);
+      // Step 3a: Stream backups straight into storage (optional); failures fall back to the file-based path
+      stageStart = Date.now();
+      const uploads = new Map<BackupResult, UploadResult>();
+      const streamed = await this.createStreamingBackups(activeResources, uploads);
+      const fileResources = activeResources.filter((_, i) => !streamed[i]);
+      
+      // Step 3b: Create, verify, encrypt and upload the remaining backups; each upload overlaps with the next dumps
+      let fileResults: BackupResult[] = [];
+      if (fileResources.length > 0) {
+        console.log(`\n💾 Creating backups for ${fileResources.length} resources and uploading them to ${this.storageProvider.name}...`);
+        await this.storageProvider.initialize();
+        fileResults = await this.backupService.createMultipleBackups(fileResources, resource => this.getDumpOptions(resource), {
+          dumps: this.config.concurrency.dumps,
+          dumpsPerProject: this.config.concurrency.dumpsPerProject,
+          afterBackup: (result, resource) => this.processBackup(result, resource, uploads)
+        });
+      }
+      
+      const backupResults = this.mergeBackupResults(activeResources, streamed, fileResults);
+      run.backupResults = backupResults;
+      run.uploadResults = backupResults.filter(r => uploads.has(r)).map(r => uploads.get(r)!);
+      run.timings.backupMs = Date.now() - stageStart;
+      run.timings.uploadMs = run.uploadResults.reduce((total, r) => total + (r.duration || 0), 0);
       
       const successfulBackups = backupResults.filter(r => r.success);
       if (successfulBackups.length === 0) {
@@ -90,38 +303,516 @@ export class NeonBackupOrchestrator {
         throw new Error('No successful backups created');
       }
       
-      // Step 4: Upload to Google Drive
-      console.log('\n☁️  Uploading backups to Google Drive...');
-      await this.driveService.initialize();
-      const uploadResults = await this.driveService.uploadMultipleBackups(backupResults);
-      
       // Step 5: Cleanup old backups (optional)
       if (this.config.cleanupOldBackups) {
         console.log('\n🧹 Cleaning up old backups...');
-        await this.backupService.cleanupOldBackups(this.config.cleanupRetentionDays);
-        await this.driveService.cleanupOldBackups(this.config.cleanupRetentionDays);
+        stageStart = Date.now();
+        run.deletedFiles = (await this.cleanupOldBackups(activeResources)).storage;
+        run.timings.cleanupMs = Date.now() - stageStart;
       }
       
+      // Record uploads and deletions in the backup catalog
+      run.catalogHead = await this.updateCatalog(backupResults, uploads, run.deletedFiles);
+      
       // Step 6: Generate summary
-      this.generateSummary(activeResources, backupResults, uploadResults);
+      this.generateSummary(activeResources, backupResults, run.uploadResults);
+      
+      // Step 7: Store the machine-readable run report next to the backups and send notifications
+      const report = await this.completeRun(run);
       
       console.log('\n✅ Backup process completed successfully!');
+      return report;
       
     } catch (error) {
       console.error('\n❌ Backup process failed:', error);
+      run.error = error instanceof Error ? error.message : String(error);
+      await this.completeRun(run);
       throw error;
     }
   }
 
+  /**
+   * Dry run: discover the resources and list the stored backups like a real run, then report what it would dump
+   * and which files its cleanup would delete. Nothing is dumped, uploaded, deleted or notified; only the storage
+   * folder may be created when it is missing.
+   */
+  async planBackupProcess(): Promise<BackupPlan> {
+    console.log('🔎 Planning Neon Database Backup Process (dry run)');
+    console.log('================================================');
+
+    const generatedAt = new Date();
+
+    console.log('\n📡 Testing connections...');
+    await this.testConnections();
+
+    console.log('\n🔍 Discovering active Neon resources...');
+    const { resources: activeResources, skipped } = await this.discoverResources();
+
+    const backups: PlannedBackup[] = activeResources.map(resource => {
+      const options = this.getDumpOptions(resource);
+      const encrypted = !!this.getEncryptionService(resource);
+      return {
+        resource,
+        fileName: this.backupService.getBackupFileName(resource, options) + (encrypted ? ENCRYPTED_EXTENSION : ''),
+        folder: this.getFolder(resource),
+        mode: options.mode || 'full',
+        format: options.format || 'plain',
+        compression: resolveCompression(options.compression).codec,
+        encrypted
+      };
+    });
+
+    // The planned backups take their retention slots, as they would after a real run's backups
+    let deletions = { local: [] as string[], storage: [] as StoredBackupFile[] };
+    if (this.config.cleanupOldBackups) {
+      console.log('\n🧹 Checking which old backups cleanup would delete...');
+      await this.storageProvider.initialize();
+      deletions = await this.cleanupOldBackups(activeResources, {
+        dryRun: true,
+        pending: backups.map(backup => backup.fileName)
+      });
+    }
+
+    const plan = createBackupPlan({
+      generatedAt,
+      storage: this.storageProvider.name,
+      activityWindow: describeActivityWindow(this.config.activityWindow),
+      backups,
+      skipped,
+      cleanup: !this.config.cleanupOldBackups ? 'disabled' : this.config.retentionPolicy ? 'retention' : 'age',
+      localDeletions: deletions.local,
+      storageDeletions: deletions.storage
+    });
+    this.printPlan(plan);
+
+    let planPath: string | undefined;
+    try {
+      planPath = await writeBackupPlan(plan, this.config.outputDir);
+      console.log(`\n📝 Plan written to ${planPath}`);
+    } catch (error) {
+      console.error('⚠️  Could not write the backup plan:', error);
+    }
+
+    if (process.env.GITHUB_ACTIONS) {
+      try {
+        await publishPlanOutputs(plan, planPath);
+      } catch (error) {
+        console.error('⚠️  Could not write the action outputs and job summary:', error);
+      }
+    }
+
+    console.log('\n✅ Dry run completed, nothing was changed');
+    return plan;
+  }
+
+  /**
+   * The resources a backup run would select, and the ones discovery and the schedule tier leave out
+   */
+  async discoverResources(): Promise<{ resources: DatabaseActivity[]; skipped: SkippedResource[] }> {
+    const skipped: SkippedResource[] = [];
+    const resources = this.applyScheduleTier(
+      await this.discoveryService.discoverActiveResources(await this.getLatestBackups()),
+      skipped
+    );
+    return { resources, skipped: [...this.discoveryService.getSkippedResources(), ...skipped] };
+  }
+
+  /**
+   * Apply the cleanup rules without creating backups, and record the deletions in the backup catalog.
+   * Returns the local file names and stored files that were deleted, or in a dry run would be.
+   */
+  async pruneBackups(options: CleanupOptions = {}): Promise<{ local: string[]; storage: StoredBackupFile[] }> {
+    await this.backupService.initialize();
+    await this.storageProvider.initialize();
+
+    // Without discovery, per-project retention overrides are matched on the backup names
+    const deletions = await this.cleanupOldBackups([], options);
+    if (!options.dryRun && deletions.storage.length > 0) {
+      await this.updateCatalog([], new Map(), deletions.storage);
+    }
+    return deletions;
+  }
+
+  /**
+   * Publish the run report and notify about the outcome
+   */
+  private async completeRun(run: RunState): Promise<RunReport> {
+    const report = await this.publishRunReport(run);
+    await this.notificationService.notify(report);
+    return report;
+  }
+
+  /**
+   * Write the JSON run report to the output directory and upload it, then publish the action outputs.
+   * A report that cannot be stored never fails the run.
+   */
+  private async publishRunReport(run: RunState): Promise<RunReport> {
+    const report = createRunReport({
+      startedAt: run.startedAt,
+      finishedAt: new Date(),
+      storage: this.storageProvider.name,
+      activityWindow: describeActivityWindow(this.config.activityWindow),
+      discovered: run.discovered,
+      skipped: [...this.discoveryService.getSkippedResources(), ...run.skipped],
+      backupResults: run.backupResults,
+      uploadResults: run.uploadResults,
+      deletedFiles: run.deletedFiles,
+      catalogHead: run.catalogHead,
+      timings: run.timings,
+      retries: this.retrier.getCounts(),
+      error: run.error
+    });
+
+    let reportPath: string | undefined;
+    try {
+      console.log('\n📝 Writing run report...');
+      reportPath = await writeRunReport(report, this.config.outputDir);
+      await this.storageProvider.initialize();
+      const upload = await this.storageProvider.uploadBackup(
+        reportPath,
+        undefined,
+        `Neon backup run report (${report.status}) created on ${report.finishedAt}`
+      );
+      if (!upload.success) {
+        console.error(`⚠️  Run report was written to ${reportPath} but could not be uploaded: ${upload.error}`);
+      }
+    } catch (error) {
+      console.error('⚠️  Could not store the run report:', error);
+    }
+
+    if (process.env.GITHUB_ACTIONS) {
+      try {
+        await publishActionOutputs(report, reportPath);
+      } catch (error) {
+        console.error('⚠️  Could not write the action outputs and job summary:', error);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Stream every resource straight into storage when streaming uploads are enabled, recording the uploads.
+   * Returns one entry per resource; undefined marks resources that still need the file-based path.
+   */
+  private async createStreamingBackups(
+    resources: DatabaseActivity[],
+    uploads: Map<BackupResult, UploadResult>
+  ): Promise<(BackupResult | undefined)[]> {
+    if (!this.config.streamingUploads) {
+      return resources.map(() => undefined);
+    }
+
+    if (!this.storageProvider.uploadStream) {
+      console.log(`ℹ️  ${this.storageProvider.name} does not support streaming uploads, using backup files`);
+      return resources.map(() => undefined);
+    }
+
+    if (this.verificationService) {
+      // Verification restores the dump, which streaming never writes
+      console.log('ℹ️  Backup verification needs dumps on disk, streaming uploads are disabled');
+      return resources.map(() => undefined);
+    }
+
+    console.log(`\n🌊 Streaming backups for ${resources.length} resources to ${this.storageProvider.name}...`);
+    await this.storageProvider.initialize();
+
+    // A streamed backup is dump and upload in one, so it takes a dump slot and an upload slot
+    const dumpSlots = new Semaphore(this.config.concurrency.dumps);
+    const projectSlots = new KeyedSemaphore(this.config.concurrency.dumpsPerProject);
+
+    return Promise.all(resources.map(async resource => {
+      // pg_dump writes directory-format dumps as many files, never to stdout
+      if (this.getDumpOptions(resource).format === 'directory') {
+        return undefined;
+      }
+
+      const folder = this.getFolder(resource);
+      const encryptionService = this.getEncryptionService(resource);
+      const result = await projectSlots.run(resource.project_id, () => dumpSlots.run(() => this.uploadSlots.run(() =>
+        this.backupService.createStreamingBackup(
+          resource,
+          (stream, fileName) => this.storageProvider.uploadStream!(stream, fileName, describeBackup({
+            projectName: resource.project_name,
+            branchName: resource.branch_name,
+            databaseName: resource.database_name,
+            success: true
+          }), folder),
+          {
+            ...this.getDumpOptions(resource),
+            ...(encryptionService
+              ? {
+                transform: stream => encryptionService.encryptStream(stream),
+                fileNameSuffix: ENCRYPTED_EXTENSION
+              }
+              : {})
+          }
+        )
+      )));
+
+      if (!result.backup.success) {
+        console.log(`↩️  Falling back to a backup file for ${resource.project_name}/${resource.branch_name}/${resource.database_name}`);
+        return undefined;
+      }
+
+      result.backup.folder = folder;
+      result.backup.encrypted = !!encryptionService;
+      uploads.set(result.backup, result.upload!);
+      return result.backup;
+    }));
+  }
+
+  /**
+   * Put streamed and file-based backup results back into discovery order
+   */
+  private mergeBackupResults(
+    resources: DatabaseActivity[],
+    streamed: (BackupResult | undefined)[],
+    fileResults: BackupResult[]
+  ): BackupResult[] {
+    let fileIndex = 0;
+    return resources.map((_, i) => streamed[i] || fileResults[fileIndex++]);
+  }
+
+  /**
+   * Verify, encrypt and upload one finished backup, recording the upload
+   */
+  private async processBackup(
+    result: BackupResult,
+    resource: DatabaseActivity,
+    uploads: Map<BackupResult, UploadResult>
+  ): Promise<void> {
+    if (!result.success) {
+      return;
+    }
+    result.folder = this.getFolder(resource);
+
+    // Test-restore the backup and record the verdict on its result (optional); partial dumps would never match the source
+    if (this.verificationService && isPartialDump(this.getDumpOptions(resource))) {
+      console.log(`ℹ️  Skipping verification of the partial backup of ${result.projectName}/${result.branchName}/${result.databaseName}`);
+    } else if (this.verificationService && result.dumpPath && resource.connection_uri) {
+      console.log(`\n🔬 Verifying ${result.projectName}/${result.branchName}/${result.databaseName}`);
+      result.verification = await this.verificationService.verifyBackup(result.dumpPath, resource.connection_uri);
+    }
+
+    // Encrypt the archive before it leaves the machine (optional)
+    const encryptionService = this.getEncryptionService(resource);
+    if (encryptionService) {
+      await this.encryptBackup(result, encryptionService);
+      if (!result.success) {
+        return;
+      }
+    }
+
+    uploads.set(result, await this.uploadSlots.run(() => this.storageProvider.uploadBackupResult(result)));
+  }
+
+  /**
+   * Replace a backup archive with its encrypted copy; a backup that cannot be encrypted is not uploaded
+   */
+  private async encryptBackup(result: BackupResult, encryptionService: BackupEncryptionService): Promise<void> {
+    if (!result.filePath) {
+      return;
+    }
+
+    try {
+      const hashing = new HashingStream();
+      const encryptedPath = await encryptionService.encryptFile(result.filePath, hashing);
+      const stats = await fs.stat(encryptedPath);
+      result.filePath = encryptedPath;
+      result.fileName = basename(encryptedPath);
+      result.fileSize = stats.size;
+      const hashes = hashing.digest();
+      result.checksum = hashes.sha256;
+      result.md5Checksum = hashes.md5;
+      result.encrypted = true;
+    } catch (error) {
+      result.success = false;
+      result.error = `Encryption failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * Add this run's uploads and deletions to the backup catalog and return its head hash.
+   * A catalog that cannot be updated never fails the run.
+   */
+  private async updateCatalog(
+    backupResults: BackupResult[],
+    uploads: Map<BackupResult, UploadResult>,
+    deletedFiles: StoredBackupFile[]
+  ): Promise<string | undefined> {
+    try {
+      console.log('\n📒 Updating backup catalog...');
+      const catalog = new BackupCatalogService(this.storageProvider, this.config.outputDir);
+      return await catalog.record(
+        backupResults.filter(backup => uploads.has(backup)).map(backup => ({ backup, upload: uploads.get(backup)! })),
+        deletedFiles
+      );
+    } catch (error) {
+      console.error('⚠️  Could not update the backup catalog:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Drop resources whose schedule tier differs from the run's, recording them as skipped.
+   * Runs without a SCHEDULE_TIER and branches without a tier are not restricted.
+   */
+  private applyScheduleTier(resources: DatabaseActivity[], skipped: SkippedResource[]): DatabaseActivity[] {
+    const runTier = this.config.scheduleTier;
+    if (!runTier) {
+      return resources;
+    }
+
+    return resources.filter(resource => {
+      const tier = this.getOverride(resource).schedule;
+      if (!tier || tier === runTier) {
+        return true;
+      }
+
+      console.log(`⏭️  ${resource.project_name}/${resource.branch_name}/${resource.database_name} is on the '${tier}' schedule - skipping in this '${runTier}' run`);
+      skipped.push({
+        project_id: resource.project_id,
+        project_name: resource.project_name,
+        branch_id: resource.branch_id,
+        branch_name: resource.branch_name,
+        database_name: resource.database_name,
+        kind: 'schedule',
+        reason: `Schedule tier '${tier}' does not match this run's tier '${runTier}'`
+      });
+      return false;
+    });
+  }
+
+  /**
+   * Delete old backups locally and in storage, honouring per-project retention overrides.
+   * Returns the local file names and stored files that were deleted, or in a dry run would be.
+   */
+  private async cleanupOldBackups(
+    resources: DatabaseActivity[],
+    options: CleanupOptions = {}
+  ): Promise<{ local: string[]; storage: StoredBackupFile[] }> {
+    const resolver = this.overrides.createRetentionResolver(resources, this.config.retentionPolicy, this.config.modeRetentionPolicies);
+    const hasOwnPolicies = this.overrides.hasRetentionOverrides() || Object.keys(this.config.modeRetentionPolicies).length > 0;
+
+    if (this.config.retentionPolicy) {
+      const policy = hasOwnPolicies ? resolver : this.config.retentionPolicy;
+      return {
+        local: await this.backupService.applyRetentionPolicy(policy, options),
+        storage: await this.storageProvider.applyRetentionPolicy(policy, options)
+      };
+    }
+
+    // Branches and modes with their own retention policy are left out of the age-based cleanup, and so is the catalog
+    const hasOwnPolicy = (fileName: string) => {
+      if (fileName === CATALOG_FILE_NAME) {
+        return true;
+      }
+      const parsed = parseBackupFileName(fileName);
+      return !!parsed && !!resolver(parsed.prefix, parsed.mode);
+    };
+    const local = await this.backupService.cleanupOldBackups(this.config.cleanupRetentionDays, hasOwnPolicy, options);
+    const storage = await this.storageProvider.cleanupOldBackups(this.config.cleanupRetentionDays, hasOwnPolicy, options);
+
+    if (hasOwnPolicies) {
+      local.push(...await this.backupService.applyRetentionPolicy(resolver, options));
+      storage.push(...await this.storageProvider.applyRetentionPolicy(resolver, options));
+    }
+    return { local, storage };
+  }
+
+  /**
+   * Config file overrides matching a resource's project and branch
+   */
+  private getOverride(resource: DatabaseActivity): ResolvedOverride {
+    return this.overrides.resolve({ id: resource.project_id, name: resource.project_name }, resource.branch_name);
+  }
+
+  /**
+   * Storage sub-folder for a resource's backups: its override's folder, else the global template, filled in for today
+   */
+  private getFolder(resource: DatabaseActivity): string | undefined {
+    const template = this.getOverride(resource).folder ?? this.config.folderTemplate;
+    if (!template) {
+      return undefined;
+    }
+
+    return expandFolderTemplate(template, {
+      projectId: resource.project_id,
+      projectName: resource.project_name,
+      branchName: resource.branch_name,
+      databaseName: resource.database_name,
+      mode: this.getDumpOptions(resource).mode || 'full',
+      date: new Date()
+    }) || undefined;
+  }
+
+  /**
+   * pg_dump options for a resource: the global dump settings with its overrides applied
+   */
+  private getDumpOptions(resource: DatabaseActivity): BackupOptions {
+    const dump = { ...this.config.dump, ...this.getOverride(resource).dump };
+    const options: BackupOptions = {};
+
+    if (dump.format) options.format = dump.format;
+    if (dump.compressionLevel !== undefined) options.compressionLevel = dump.compressionLevel;
+    if (dump.jobs !== undefined) options.jobs = dump.jobs;
+    options.compression = { ...this.config.compression, ...this.getOverride(resource).compression };
+    if (dump.includeBlobs !== undefined) options.includeBlobs = dump.includeBlobs;
+    if (dump.includePrivileges !== undefined) options.includePrivileges = dump.includePrivileges;
+    if (dump.mode) options.mode = dump.mode;
+    if (dump.schemas) options.schemas = dump.schemas;
+    if (dump.excludeSchemas) options.excludeSchemas = dump.excludeSchemas;
+    if (dump.tables) options.tables = dump.tables;
+    if (dump.excludeTables) options.excludeTables = dump.excludeTables;
+    if (dump.excludeTableData) options.excludeTableData = dump.excludeTableData;
+
+    return options;
+  }
+
+  /**
+   * Encryption for a resource: none when an override disables it, other recipients when an override sets public keys
+   */
+  private getEncryptionService(resource: DatabaseActivity): BackupEncryptionService | undefined {
+    const encryption = this.getOverride(resource).encryption;
+    if (encryption.enabled === false) {
+      return undefined;
+    }
+    if (!encryption.publicKeys) {
+      return this.encryptionService;
+    }
+
+    let service = this.overrideEncryptionServices.get(encryption.publicKeys);
+    if (!service) {
+      service = new BackupEncryptionService({ ...this.config.encryption, publicKeys: encryption.publicKeys });
+      this.overrideEncryptionServices.set(encryption.publicKeys, service);
+    }
+    return service;
+  }
+
+  /**
+   * Newest backup of this run's mode per project/branch/database, only needed when the activity window is since-last-backup
+   */
+  private async getLatestBackups(): Promise<Map<string, Date>> {
+    if (this.config.activityWindow.mode !== 'since-last-backup') {
+      return new Map();
+    }
+
+    console.log(`📋 Loading existing backups from ${this.storageProvider.name}...`);
+    await this.storageProvider.initialize();
+    const files = await this.storageProvider.listBackupFiles();
+    return findLatestBackups(files.map(file => file.name), this.config.dump.mode);
+  }
+
   /**
    * Test all service connections
    */
   private async testConnections(): Promise<void> {
     try {
-      // Test Google Drive connection
-      const driveTestResult = await this.driveService.testConnection();
-      if (!driveTestResult) {
-        throw new Error('Google Drive connection test failed');
+      // Test storage connection
+      const storageTestResult = await this.storageProvider.testConnection();
+      if (!storageTestResult) {
+        throw new Error(`${this.storageProvider.name} connection test failed`);
       }
       
       // Test pg_dump availability
@@ -144,40 +835,83 @@ export class NeonBackupOrchestrator {
    * Generate and display process summary
    */
   private generateSummary(
-    activeResources: any[], 
-    backupResults: any[], 
-    uploadResults: any[] | { successful: number; failed: number }
+    activeResources: DatabaseActivity[], 
+    backupResults: BackupResult[], 
+    uploadResults: UploadResult[]
   ): void {
     const successfulBackups = backupResults.filter(r => r.success).length;
     const failedBackups = backupResults.length - successfulBackups;
-    
-    // Handle different upload result formats
-    let successfulUploads = 0;
-    let failedUploads = 0;
-    
-    if (Array.isArray(uploadResults)) {
-      // Service account format
-      successfulUploads = uploadResults.filter(r => r.success).length;
-      failedUploads = uploadResults.length - successfulUploads;
-    } else {
-      // OAuth format
-      successfulUploads = uploadResults.successful;
-      failedUploads = uploadResults.failed;
-    }
+    const successfulUploads = uploadResults.filter(r => r.success).length;
+    const failedUploads = uploadResults.length - successfulUploads;
     
     const totalBackupSize = backupResults
       .filter(r => r.success && r.fileSize)
-      .reduce((total, r) => total + r.fileSize, 0);
+      .reduce((total, r) => total + (r.fileSize || 0), 0);
     
     console.log('\n📊 BACKUP PROCESS SUMMARY');
     console.log('========================');
     console.log(`🔍 Resources discovered: ${activeResources.length}`);
     console.log(`💾 Successful backups: ${successfulBackups}`);
     console.log(`❌ Failed backups: ${failedBackups}`);
-    console.log(`☁️  Successful uploads: ${successfulUploads}`);
+    
+    const verifiedResults = backupResults.filter(r => r.verification);
+    if (verifiedResults.length > 0) {
+      const verifiedBackups = verifiedResults.filter(r => r.verification!.verified).length;
+      console.log(`🔬 Verified backups: ${verifiedBackups}/${verifiedResults.length}`);
+    }
+    console.log(`☁️  Successful uploads to ${this.storageProvider.name}: ${successfulUploads}`);
     console.log(`❌ Failed uploads: ${failedUploads}`);
     console.log(`📦 Total backup size: ${this.formatFileSize(totalBackupSize)}`);
+    for (const [scope, counts] of Object.entries(this.retrier.getCounts())) {
+      console.log(`🔁 ${RETRY_SCOPE_LABELS[scope as RetryScope]}: ${counts.attempts} attempts for ${counts.operations} (${counts.retried} retried, ${counts.failed} failed)`);
+    }
     console.log(`⏱️  Process completed at: ${new Date().toISOString()}`);
+    
+    console.log('\n🗄️  Databases:');
+    for (const result of backupResults) {
+      const source = `${result.projectName}/${result.branchName}/${result.databaseName}`;
+      const encrypted = result.encrypted ? ' 🔐' : '';
+      const attempts = result.attempts && result.attempts > 1 ? ` after ${result.attempts} pg_dump attempts` : '';
+      const verification = result.verification
+        ? (result.verification.verified ? ' - verified' : ` - verification failed: ${result.verification.error || result.verification.mismatches.join('; ')}`)
+        : '';
+      console.log(result.success
+        ? `   ✅ ${source}: ${result.fileName}${encrypted} (${this.formatFileSize(result.fileSize || 0)})${attempts}${verification}`
+        : `   ❌ ${source}: ${result.error}${attempts}`);
+    }
+  }
+
+  /**
+   * Display what a dry run found
+   */
+  private printPlan(plan: BackupPlan): void {
+    console.log('\n📋 BACKUP PLAN (dry run)');
+    console.log('========================');
+    console.log(`🔍 Activity window: ${plan.activityWindow}`);
+    console.log(`💾 Backups to create: ${plan.totals.backups}`);
+    for (const backup of plan.backups) {
+      const target = backup.folder ? `${backup.folder}/${backup.fileName}` : backup.fileName;
+      console.log(`   ➕ ${backup.projectName}/${backup.branchName}/${backup.databaseName} (${backup.reason}): ${target}${backup.encrypted ? ' 🔐' : ''}`);
+    }
+
+    console.log(`⏭️  Skipped: ${plan.totals.skipped}`);
+    for (const skip of plan.skipped) {
+      const source = [skip.projectName, skip.branchName, skip.databaseName].filter(Boolean).join('/');
+      console.log(`   ➖ ${source} (${skip.kind}): ${skip.reason}`);
+    }
+
+    if (plan.cleanup === 'disabled') {
+      console.log('🧹 Cleanup is disabled');
+      return;
+    }
+    console.log(`🗑️  Would delete ${plan.totals.storageDeletions} files from ${plan.storage}`);
+    for (const file of plan.deletions.storage) {
+      console.log(`   ➖ ${file.fileName}${file.createdTime ? ` (${file.createdTime})` : ''}`);
+    }
+    console.log(`🗑️  Would delete ${plan.totals.localDeletions} local files`);
+    for (const name of plan.deletions.local) {
+      console.log(`   ➖ ${name}`);
+    }
   }
 
   /**
@@ -196,35 +930,15 @@ export class NeonBackupOrchestrator {
  */
 async function main(): Promise<void> {
   try {
-    // Get configuration from environment variables or GitHub Actions inputs
-    const config: BackupConfiguration = {
-      neonApiKey: getInput('NEON_API_KEY', true),
-      googleDriveCredentials: getInput('GOOGLE_DRIVE_CREDENTIALS', false),
-      googleClientId: getInput('GOOGLE_CLIENT_ID', false),
-      googleClientSecret: getInput('GOOGLE_CLIENT_SECRET', false),
-      googleRefreshToken: getInput('GOOGLE_REFRESH_TOKEN', false),
-      retentionDays: parseInt(getInput('BACKUP_RETENTION_DAYS', false) || '7'),
-      outputDir: getInput('OUTPUT_DIR', false) || './backups',
-      cleanupOldBackups: getInput('CLEANUP_OLD_BACKUPS', false) === 'true',
-      cleanupRetentionDays: parseInt(getInput('CLEANUP_RETENTION_DAYS', false) || '30')
-    };
-
-    // Validate configuration
-    if (!config.neonApiKey) {
-      throw new Error('NEON_API_KEY is required');
-    }
-    
-    // Check if either authentication method is provided
-    const hasServiceAccount = !!config.googleDriveCredentials;
-    const hasOAuth = !!(config.googleClientId && config.googleClientSecret && config.googleRefreshToken);
-    
-    if (!hasServiceAccount && !hasOAuth) {
-      throw new Error('Either Google Service Account credentials or OAuth credentials (CLIENT_ID, CLIENT_SECRET, REFRESH_TOKEN) must be provided');
-    }
+    const config = await getBackupConfiguration();
 
     // Run backup process
     const orchestrator = new NeonBackupOrchestrator(config);
-    await orchestrator.runBackupProcess();
+    if (config.dryRun) {
+      await orchestrator.planBackupProcess();
+    } else {
+      await orchestrator.runBackupProcess();
+    }
 
   } catch (error) {
     console.error('❌ Main process failed:', error);
@@ -238,10 +952,320 @@ async function main(): Promise<void> {
   }
 }
 
+/**
+ * Read the backup settings from environment variables or GitHub Actions inputs and the config file, and check them.
+ * Commands that never call the Neon API, such as pruning, can do without NEON_API_KEY.
+ */
+export async function getBackupConfiguration(requireNeonApiKey: boolean = true): Promise<BackupConfiguration> {
+  // Settings from the optional config file; inputs take precedence
+  const configFile = await getConfigFile();
+  const retentionPolicy = getInput('RETENTION_POLICY', false) || configFile.cleanup?.retentionPolicy;
+  const backupRetentionDays = parsePositiveInteger('BACKUP_RETENTION_DAYS', getInput('BACKUP_RETENTION_DAYS', false));
+  const dumpFormat = getInput('DUMP_FORMAT', false).trim();
+  const dumpJobs = parsePositiveInteger('DUMP_JOBS', getInput('DUMP_JOBS', false));
+  const backupMode = getInput('BACKUP_MODE', false).trim();
+  const compressionCodec = getInput('COMPRESSION_CODEC', false).trim();
+  const compressionLevel = parseCompressionLevel('COMPRESSION_LEVEL', getInput('COMPRESSION_LEVEL', false));
+
+  // Get configuration from environment variables or GitHub Actions inputs
+  const config: BackupConfiguration = {
+    neonApiKey: getInput('NEON_API_KEY', requireNeonApiKey),
+    ...getStorageConfiguration(configFile),
+    // ACTIVITY_WINDOW takes precedence over the day-based BACKUP_RETENTION_DAYS
+    activityWindow: parseActivityWindow(
+      getInput('ACTIVITY_WINDOW', false) ||
+      (backupRetentionDays ? `${backupRetentionDays}d` : configFile.activityWindow) ||
+      '7d'
+    ),
+    outputDir: getInput('OUTPUT_DIR', false) || configFile.outputDir || './backups',
+    cleanupOldBackups: parseBoolean('CLEANUP_OLD_BACKUPS', getInput('CLEANUP_OLD_BACKUPS', false)) ?? configFile.cleanup?.enabled ?? true,
+    cleanupRetentionDays: parsePositiveInteger('CLEANUP_RETENTION_DAYS', getInput('CLEANUP_RETENTION_DAYS', false)) ?? configFile.cleanup?.retentionDays ?? 30,
+    retentionPolicy: retentionPolicy ? parseRetentionPolicy(retentionPolicy) : undefined,
+    modeRetentionPolicies: getModeRetentionPolicies(configFile),
+    verifyScratchUrl: getInput('VERIFY_SCRATCH_URL', false) || undefined,
+    encryption: getEncryptionConfiguration(configFile),
+    streamingUploads: parseBoolean('STREAMING_UPLOADS', getInput('STREAMING_UPLOADS', false)) ?? configFile.streamingUploads ?? false,
+    filters: {
+      ...mergeFilterConfig(configFile.filters, getFilterConfiguration()),
+      scoped: getScopedFilters(configFile.overrides)
+    },
+    concurrency: {
+      dumps: parsePositiveInteger('BACKUP_CONCURRENCY', getInput('BACKUP_CONCURRENCY', false)) ?? configFile.concurrency?.dumps ?? 1,
+      dumpsPerProject: parsePositiveInteger('BACKUP_CONCURRENCY_PER_PROJECT', getInput('BACKUP_CONCURRENCY_PER_PROJECT', false)) ?? configFile.concurrency?.dumpsPerProject ?? 1,
+      uploads: parsePositiveInteger('UPLOAD_CONCURRENCY', getInput('UPLOAD_CONCURRENCY', false)) ?? configFile.concurrency?.uploads ?? 1
+    },
+    // Inputs set the run's defaults; per-project overrides still apply on top
+    dump: {
+      ...configFile.dump,
+      ...(dumpFormat ? { format: parseDumpFormat('DUMP_FORMAT', dumpFormat) } : {}),
+      ...(dumpJobs ? { jobs: dumpJobs } : {}),
+      ...(backupMode ? { mode: parseBackupMode('BACKUP_MODE', backupMode) } : {}),
+      ...getDumpPatternConfiguration()
+    },
+    compression: {
+      ...configFile.compression,
+      ...(compressionCodec ? { codec: parseCompressionCodec('COMPRESSION_CODEC', compressionCodec) } : {}),
+      ...(compressionLevel !== undefined ? { level: compressionLevel } : {})
+    },
+    overrides: configFile.overrides || [],
+    scheduleTier: getInput('SCHEDULE_TIER', false) || undefined,
+    notifications: getNotificationConfiguration(configFile),
+    retry: getRetryPolicy(configFile),
+    dryRun: parseBoolean('DRY_RUN', getInput('DRY_RUN', false)) ?? false
+  };
+
+  // Validate configuration
+  if (requireNeonApiKey && !config.neonApiKey) {
+    throw new Error('NEON_API_KEY is required');
+  }
+  
+  // Check if either authentication method is provided when backing up to Google Drive
+  const hasServiceAccount = !!config.googleDriveCredentials;
+  const hasOAuth = !!(config.googleClientId && config.googleClientSecret && config.googleRefreshToken);
+  
+  if (config.storageBackend === 'google-drive' && !hasServiceAccount && !hasOAuth) {
+    throw new Error('Either Google Service Account credentials or OAuth credentials (CLIENT_ID, CLIENT_SECRET, REFRESH_TOKEN) must be provided');
+  }
+
+  const hasEncryption = !!(config.encryption?.passphrase || config.encryption?.publicKeys);
+  const forcedEncryption = config.overrides.find(o => o.encryption?.enabled && !o.encryption.publicKeys);
+  if (forcedEncryption && !hasEncryption) {
+    throw new Error(`An override for ${forcedEncryption.project || '*'}/${forcedEncryption.branch || '*'} enables encryption, but neither ENCRYPTION_PASSPHRASE nor public keys are configured`);
+  }
+
+  // Every override's compression level must suit the codec it ends up with
+  for (const compression of [{}, ...config.overrides.map(o => o.compression || {})]) {
+    resolveCompression({ ...config.compression, ...compression });
+  }
+
+  return config;
+}
+
+/**
+ * Load the config file named by CONFIG_FILE, empty when none is set
+ */
+export async function getConfigFile(): Promise<ConfigFile> {
+  const configFilePath = getInput('CONFIG_FILE', false);
+  return configFilePath ? loadConfigFile(configFilePath) : {};
+}
+
+/**
+ * Read the encryption settings, undefined when neither a passphrase nor public keys are configured
+ */
+export function getEncryptionConfiguration(file: ConfigFile = {}): EncryptionConfig | undefined {
+  const config: EncryptionConfig = {
+    passphrase: getInput('ENCRYPTION_PASSPHRASE', false) || undefined,
+    publicKeys: getInput('ENCRYPTION_PUBLIC_KEYS', false) || file.encryption?.publicKeys || undefined,
+    privateKey: getInput('ENCRYPTION_PRIVATE_KEY', false) || undefined,
+    privateKeyPassphrase: getInput('ENCRYPTION_PRIVATE_KEY_PASSPHRASE', false) || undefined
+  };
+
+  return config.passphrase || config.publicKeys || config.privateKey ? config : undefined;
+}
+
+/**
+ * Read the notification channels; a channel is enabled by its webhook URL or SMTP host
+ */
+export function getNotificationConfiguration(file: ConfigFile = {}): NotificationConfig {
+  const settings = file.notifications || {};
+  const config: NotificationConfig = {};
+
+  const webhookUrl = getInput('NOTIFY_WEBHOOK_URL', false);
+  if (webhookUrl) {
+    config.webhook = {
+      url: webhookUrl,
+      notifyOn: parseNotifyOnInput('NOTIFY_WEBHOOK_ON') || settings.webhook?.on
+    };
+  }
+
+  const slackUrl = getInput('NOTIFY_SLACK_WEBHOOK_URL', false);
+  if (slackUrl) {
+    config.slack = {
+      url: slackUrl,
+      notifyOn: parseNotifyOnInput('NOTIFY_SLACK_ON') || settings.slack?.on
+    };
+  }
+
+  const smtpHost = getInput('SMTP_HOST', false) || settings.email?.host;
+  if (smtpHost) {
+    const to = (getInput('NOTIFY_EMAIL_TO', false) || settings.email?.to || '')
+      .split(/[,\n]/)
+      .map(address => address.trim())
+      .filter(Boolean);
+    const from = getInput('NOTIFY_EMAIL_FROM', false) || settings.email?.from;
+    if (to.length === 0 || !from) {
+      throw new Error('Email notifications need NOTIFY_EMAIL_TO and NOTIFY_EMAIL_FROM when SMTP_HOST is set');
+    }
+
+    const port = getInput('SMTP_PORT', false);
+    config.email = {
+      host: smtpHost,
+      port: port ? parsePort('SMTP_PORT', port) : settings.email?.port,
+      secure: parseBoolean('SMTP_SECURE', getInput('SMTP_SECURE', false)) ?? settings.email?.secure,
+      user: getInput('SMTP_USER', false) || settings.email?.user,
+      password: getInput('SMTP_PASSWORD', false) || undefined,
+      from,
+      to,
+      notifyOn: parseNotifyOnInput('NOTIFY_EMAIL_ON') || settings.email?.on
+    };
+  }
+
+  return config;
+}
+
+function parseNotifyOnInput(name: string): NotifyOn | undefined {
+  const value = getInput(name, false).trim();
+  return value ? parseNotifyOn(name, value) : undefined;
+}
+
+/**
+ * Read the discovery filters from environment variables or GitHub Actions inputs
+ */
+export function getFilterConfiguration(): ResourceFilterConfig {
+  return {
+    includeProjects: parsePatternList(getInput('INCLUDE_PROJECTS', false)),
+    excludeProjects: parsePatternList(getInput('EXCLUDE_PROJECTS', false)),
+    includeBranches: parsePatternList(getInput('INCLUDE_BRANCHES', false)),
+    excludeBranches: parsePatternList(getInput('EXCLUDE_BRANCHES', false)),
+    includeDatabases: parsePatternList(getInput('INCLUDE_DATABASES', false)),
+    excludeDatabases: parsePatternList(getInput('EXCLUDE_DATABASES', false)),
+    force: parseSelectorList(getInput('FORCE_BACKUP', false))
+  };
+}
+
+/**
+ * Retry policy from environment variables or GitHub Actions inputs, falling back to the config file and the defaults
+ */
+export function getRetryPolicy(file: ConfigFile = {}): RetryPolicy {
+  const initialDelayMs = parseNonNegativeInteger('RETRY_INITIAL_DELAY_MS', getInput('RETRY_INITIAL_DELAY_MS', false));
+  const maxDelayMs = parseNonNegativeInteger('RETRY_MAX_DELAY_MS', getInput('RETRY_MAX_DELAY_MS', false));
+  return {
+    maxAttempts: parsePositiveInteger('RETRY_MAX_ATTEMPTS', getInput('RETRY_MAX_ATTEMPTS', false)) ?? file.retry?.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    initialDelayMs: initialDelayMs ?? file.retry?.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs,
+    maxDelayMs: maxDelayMs ?? file.retry?.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs
+  };
+}
+
+/**
+ * Read the pg_dump schema and table patterns from environment variables or GitHub Actions inputs; unset lists are left out
+ */
+function getDumpPatternConfiguration(): Partial<DumpSettings> {
+  const patterns: Partial<DumpSettings> = {};
+  const inputs = {
+    schemas: 'DUMP_SCHEMAS',
+    excludeSchemas: 'DUMP_EXCLUDE_SCHEMAS',
+    tables: 'DUMP_TABLES',
+    excludeTables: 'DUMP_EXCLUDE_TABLES',
+    excludeTableData: 'DUMP_EXCLUDE_TABLE_DATA'
+  } as const;
+
+  for (const [key, name] of Object.entries(inputs) as [keyof typeof inputs, string][]) {
+    const list = parsePatternList(getInput(name, false));
+    if (list.length > 0) {
+      patterns[key] = list;
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Retention policies of the backup modes: RETENTION_POLICY_SCHEMA_ONLY and RETENTION_POLICY_DATA_ONLY
+ * take precedence over the config file's cleanup.retentionPolicyByMode
+ */
+function getModeRetentionPolicies(file: ConfigFile): Partial<Record<BackupMode, RetentionPolicy>> {
+  const policies: Partial<Record<BackupMode, RetentionPolicy>> = {};
+
+  for (const mode of BACKUP_MODES) {
+    const name = `RETENTION_POLICY_${mode.toUpperCase().replace('-', '_')}`;
+    const value = (mode !== 'full' && getInput(name, false)) || file.cleanup?.retentionPolicyByMode?.[mode];
+    if (value) {
+      policies[mode] = parseRetentionPolicy(value);
+    }
+  }
+  return policies;
+}
+
+/**
+ * Parse a setting that must be a whole number of at least 1, undefined when it is not set
+ */
+function parsePositiveInteger(name: string, value: string): number | undefined {
+  if (!value.trim()) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a whole number of at least 1, got '${value}'`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a setting that must be a whole number of at least 0, undefined when it is not set
+ */
+function parseNonNegativeInteger(name: string, value: string): number | undefined {
+  if (!value.trim()) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a whole number of at least 0, got '${value}'`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a compression level; its range is checked against the codec later
+ */
+function parseCompressionLevel(name: string, value: string): number | undefined {
+  if (!value.trim()) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a whole number, got '${value}'`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a pg_dump output format
+ */
+function parseDumpFormat(name: string, value: string): DumpFormat {
+  if (!DUMP_FORMATS.includes(value as DumpFormat)) {
+    throw new Error(`${name} must be one of ${DUMP_FORMATS.join(', ')}, got '${value}'`);
+  }
+  return value as DumpFormat;
+}
+
+/**
+ * Parse a TCP port number
+ */
+export function parsePort(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > 65535) {
+    throw new Error(`${name} must be a port number from 1 to 65535, got '${value}'`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a true/false setting, undefined when it is not set
+ */
+function parseBoolean(name: string, value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+  if (normalized !== 'true' && normalized !== 'false') {
+    throw new Error(`${name} must be true or false, got '${value}'`);
+  }
+  return normalized === 'true';
+}
+
 /**
  * Get input from environment variables or GitHub Actions inputs
  */
-function getInput(name: string, required: boolean = false): string {
+export function getInput(name: string, required: boolean = false): string {
   // Try GitHub Actions input first
   let value = '';
   
@@ -0,0 +1,222 @@
+import { promises as fs, createWriteStream } from 'fs';
+import { basename, dirname, join, relative, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { BaseStorageProvider, StoredBackupFile, UploadResult } from './storage-provider';
+import { Retrier, isRetryableError } from './retry';
+
+export interface LocalStorageConfig {
+  directory: string; // Target directory, e.g. a mounted NAS share
+}
+
+/**
+ * Storage backend that copies backups into a local or mounted directory
+ */
+export class LocalStorageService extends BaseStorageProvider {
+  readonly name = 'Local directory';
+  private directory: string;
+
+  constructor(config: LocalStorageConfig, retrier?: Retrier) {
+    super(retrier);
+    this.directory = resolve(config.directory);
+  }
+
+  /**
+   * Ensure the target directory exists
+   */
+  async initialize(): Promise<void> {
+    try {
+      console.log('🔗 Initializing local storage...');
+      await fs.mkdir(this.directory, { recursive: true });
+      console.log(`✅ Local storage initialized: ${this.directory}`);
+    } catch (error) {
+      console.error('❌ Error initializing local storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check that the target directory can be created and written to
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      console.log('🔍 Testing local storage access...');
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.access(this.directory, require('fs').constants.W_OK);
+      console.log('✅ Local storage is writable');
+      return true;
+    } catch (error) {
+      console.error('❌ Local storage is not writable:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Copy a backup file into the target directory
+   */
+  async uploadBackup(filePath: string, fileName?: string, description?: string, folder?: string, checksum?: string): Promise<UploadResult> {
+    const startTime = Date.now();
+    const actualFileName = fileName || basename(filePath);
+
+    console.log(`📤 Copying backup file: ${actualFileName}...`);
+
+    try {
+      const destinationPath = this.resolvePath(folder ? `${folder}/${actualFileName}` : actualFileName);
+      await fs.mkdir(dirname(destinationPath), { recursive: true });
+      await fs.copyFile(filePath, destinationPath);
+      const duration = Date.now() - startTime;
+
+      console.log(`✅ Copy completed: ${destinationPath} in ${duration}ms`);
+
+      return {
+        success: true,
+        fileId: this.toFileId(destinationPath),
+        fileName: actualFileName,
+        webViewLink: destinationPath,
+        checksum,
+        duration
+      };
+    } catch (error) {
+      console.error(`❌ Copy failed for ${actualFileName}:`, error);
+
+      return {
+        success: false,
+        fileName: actualFileName,
+        error: error instanceof Error ? error.message : String(error),
+        retryable: isRetryableError(error),
+        duration: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * Write a stream of unknown length into the target directory
+   */
+  async uploadStream(stream: Readable, fileName: string, description?: string, folder?: string): Promise<UploadResult> {
+    const startTime = Date.now();
+    const destinationPath = this.resolvePath(folder ? `${folder}/${fileName}` : fileName);
+    const partialPath = `${destinationPath}.partial`;
+
+    console.log(`📤 Streaming backup file: ${fileName}...`);
+
+    try {
+      await fs.mkdir(dirname(destinationPath), { recursive: true });
+      // Write under a temporary name so a failed stream never looks like a complete backup
+      await pipeline(stream, createWriteStream(partialPath));
+      await fs.rename(partialPath, destinationPath);
+      const duration = Date.now() - startTime;
+
+      console.log(`✅ Streaming copy completed: ${destinationPath} in ${duration}ms`);
+
+      return {
+        success: true,
+        fileId: this.toFileId(destinationPath),
+        fileName,
+        webViewLink: destinationPath,
+        duration
+      };
+    } catch (error) {
+      await fs.rm(partialPath, { force: true });
+      console.error(`❌ Streaming copy failed for ${fileName}:`, error);
+
+      return {
+        success: false,
+        fileName,
+        error: error instanceof Error ? error.message : String(error),
+        duration: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * List backup files in the target directory and its sub-directories, newest first
+   */
+  async listBackupFiles(maxResults?: number): Promise<StoredBackupFile[]> {
+    try {
+      console.log('📋 Listing backup files in local storage...');
+
+      const files: StoredBackupFile[] = [];
+      const pending = [this.directory];
+
+      while (pending.length > 0) {
+        const directory = pending.shift()!;
+        const entries = await fs.readdir(directory, { withFileTypes: true });
+
+        for (const entry of entries) {
+          const filePath = join(directory, entry.name);
+          if (entry.isDirectory()) {
+            pending.push(filePath);
+            continue;
+          }
+          if (!entry.isFile() || entry.name.endsWith('.partial')) {
+            continue;
+          }
+
+          const stats = await fs.stat(filePath);
+          const folder = this.toFileId(directory);
+          files.push({
+            id: this.toFileId(filePath),
+            name: entry.name,
+            folder: folder || undefined,
+            size: stats.size,
+            createdTime: stats.mtime.toISOString(),
+            webViewLink: filePath
+          });
+        }
+      }
+
+      files.sort((a, b) => b.createdTime!.localeCompare(a.createdTime!));
+      console.log(`📁 Found ${files.length} backup files in local storage`);
+
+      return files.slice(0, maxResults);
+    } catch (error) {
+      console.error('❌ Error listing backup files:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copy a backup file out of the target directory
+   */
+  async downloadBackup(fileId: string, destinationPath: string): Promise<void> {
+    try {
+      await fs.copyFile(this.resolvePath(fileId), destinationPath);
+      console.log(`✅ Copied ${fileId} to ${destinationPath}`);
+    } catch (error) {
+      console.error(`❌ Error copying backup file ${fileId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a backup file from the target directory
+   */
+  async deleteBackup(fileId: string): Promise<void> {
+    await fs.unlink(this.resolvePath(fileId));
+  }
+
+  /**
+   * Turn a file ID (path relative to the target directory) into an absolute path that stays inside it
+   */
+  private resolvePath(fileId: string): string {
+    const filePath = resolve(this.directory, fileId);
+    if (filePath !== this.directory && !filePath.startsWith(this.directory + sep)) {
+      throw new Error(`Path '${fileId}' is outside the storage directory`);
+    }
+    return filePath;
+  }
+
+  /**
+   * File ID of a path inside the target directory: the relative path with forward slashes
+   */
+  private toFileId(filePath: string): string {
+    return relative(this.directory, filePath).split(sep).join('/');
+  }
+
+  /**
+   * Location shown in upload summaries
+   */
+  protected describeLocation(): string {
+    return this.directory;
+  }
+}
@@ -1,4 +1,8 @@
-import { createApiClient } from '@neondatabase/api-client';
+import { createApiClient, EndpointType, Operation, OperationStatus } from '@neondatabase/api-client';
+import { ActivityWindow, describeActivityWindow } from './activity-window';
+import { sanitizeBackupNamePart } from './backup-service';
+import { ResourceFilter } from './resource-filter';
+import { Retrier, isRateLimitError, isRetryableError } from './retry';
 
 export interface NeonProject {
   id: string;
@@ -18,23 +22,70 @@ export interface NeonBranch {
   default: boolean;
 }
 
+export interface NeonDatabase {
+  name: string;
+  owner_name: string;
+  branch_id: string;
+}
+
+/**
+ * Why discovery selected a database: its branch changed, a FORCE_BACKUP selector matched,
+ * or its activity could not be checked and it is backed up to be safe
+ */
+export type BackupReason = 'active' | 'forced' | 'activity-unknown';
+
+/**
+ * Why discovery or the schedule tier left a resource out
+ */
+export type SkipKind = 'filtered' | 'inactive' | 'schedule' | 'empty' | 'error';
+
 export interface DatabaseActivity {
   project_id: string;
   project_name: string;
   branch_id: string;
   branch_name: string;
+  database_name: string;
   has_recent_activity: boolean;
   last_activity_date?: string;
   connection_uri?: string;
+  backup_reason?: BackupReason;
+}
+
+export interface SkippedResource {
+  project_id: string;
+  project_name: string;
+  branch_id?: string;
+  branch_name?: string;
+  database_name?: string;
+  kind: SkipKind;
+  reason: string;
 }
 
 export class NeonDiscoveryService {
   private apiClient;
-  private retentionDays: number;
+  private activityWindow: ActivityWindow;
+  private filter: ResourceFilter;
+  private retrier: Retrier;
+  private skippedResources: SkippedResource[] = [];
 
-  constructor(apiKey: string, retentionDays: number = 7) {
+  constructor(
+    apiKey: string,
+    activityWindow: ActivityWindow = { mode: 'duration', hours: 7 * 24 },
+    filter: ResourceFilter = new ResourceFilter(),
+    retrier: Retrier = new Retrier()
+  ) {
     this.apiClient = createApiClient({ apiKey });
-    this.retentionDays = retentionDays;
+    this.activityWindow = activityWindow;
+    this.filter = filter;
+    this.retrier = retrier;
+  }
+
+  /**
+   * Call the Neon API, retrying rate limits and transient failures. Calls that create something are only
+   * retried when Neon turned them away with a 429, so a retry never creates a second branch or database.
+   */
+  private callApi<T>(description: string, call: () => Promise<T>, idempotent: boolean = true): Promise<T> {
+    return this.retrier.run('neonApi', description, call, idempotent ? isRetryableError : isRateLimitError);
   }
 
   /**
@@ -43,7 +94,7 @@ export class NeonDiscoveryService {
   async discoverProjects(): Promise<NeonProject[]> {
     try {
       console.log('🔍 Discovering Neon projects...');
-      const response = await this.apiClient.listProjects({});
+      const response = await this.callApi('Listing Neon projects', () => this.apiClient.listProjects({}));
       const projects = response.data.projects.map(project => ({
         id: project.id,
         name: project.name,
@@ -66,7 +117,7 @@ export class NeonDiscoveryService {
   async discoverBranches(projectId: string): Promise<NeonBranch[]> {
     try {
       console.log(`🔍 Discovering branches for project ${projectId}...`);
-      const response = await this.apiClient.listProjectBranches({ projectId });
+      const response = await this.callApi(`Listing branches of ${projectId}`, () => this.apiClient.listProjectBranches({ projectId }));
       const branches = response.data.branches.map(branch => ({
         id: branch.id,
         name: branch.name,
@@ -86,14 +137,14 @@ export class NeonDiscoveryService {
   }
 
   /**
-   * Check if a branch has recent activity based on updated_at timestamp
+   * Check if a branch has been updated after the cutoff date
    */
-  checkBranchActivity(branch: NeonBranch): boolean {
+  checkBranchActivity(branch: NeonBranch, cutoffDate: Date = this.getActivityCutoff()): boolean {
     try {
-      const cutoffDate = new Date();
-      cutoffDate.setHours(cutoffDate.getHours() - 23);
-
       const branchUpdatedAt = new Date(branch.updated_at);
+      if (isNaN(branchUpdatedAt.getTime())) {
+        throw new Error(`Invalid updated_at timestamp '${branch.updated_at}'`);
+      }
       const hasRecentActivity = branchUpdatedAt >= cutoffDate;
 
       console.log(
@@ -110,13 +161,124 @@ export class NeonDiscoveryService {
     }
   }
 
+  /**
+   * Start of the configured activity window
+   */
+  private getActivityCutoff(): Date {
+    if (this.activityWindow.mode !== 'duration') {
+      throw new Error('The activity cutoff depends on the last backup in since-last-backup mode');
+    }
+
+    return new Date(Date.now() - this.activityWindow.hours * 60 * 60 * 1000);
+  }
+
+  /**
+   * Discover all databases on a branch
+   */
+  async discoverDatabases(projectId: string, branchId: string): Promise<NeonDatabase[]> {
+    try {
+      const response = await this.callApi(`Listing databases of ${branchId}`, () => this.apiClient.listProjectBranchDatabases(projectId, branchId));
+      const databases = response.data.databases.map(db => ({
+        name: db.name,
+        owner_name: db.owner_name,
+        branch_id: branchId
+      }));
+
+      console.log(`🗄️  Found ${databases.length} databases on branch ${branchId}: ${databases.map(db => db.name).join(', ')}`);
+      return databases;
+    } catch (error) {
+      console.error(`❌ Error discovering databases for branch ${branchId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a connection URI for a specific database using its owner role
+   */
+  async getDatabaseConnectionUri(projectId: string, database: NeonDatabase): Promise<string> {
+    const response = await this.callApi(`Getting the connection URI of ${database.name}`, () => this.apiClient.getConnectionUri({
+      projectId: projectId,
+      database_name: database.name,
+      branch_id: database.branch_id,
+      role_name: database.owner_name
+    }));
+
+    return response.data.uri;
+  }
+
+  /**
+   * Build one backup resource per database on a branch
+   */
+  private async getBranchResources(
+    project: NeonProject,
+    branch: NeonBranch,
+    selectDatabase: (database: NeonDatabase) => BackupReason | false = () => 'active'
+  ): Promise<DatabaseActivity[]> {
+    const databases = await this.discoverDatabases(project.id, branch.id);
+
+    if (databases.length === 0) {
+      console.log(`⚠️  Branch ${branch.name} has no databases - nothing to back up`);
+      this.recordSkip(project, branch, 'empty', 'Branch has no databases');
+      return [];
+    }
+
+    const resources: DatabaseActivity[] = [];
+    for (const database of databases) {
+      const reason = selectDatabase(database);
+      if (!reason) {
+        continue;
+      }
+
+      try {
+        const connectionUri = await this.getDatabaseConnectionUri(project.id, database);
+        resources.push({
+          project_id: project.id,
+          project_name: project.name,
+          branch_id: branch.id,
+          branch_name: branch.name,
+          database_name: database.name,
+          has_recent_activity: true,
+          last_activity_date: branch.updated_at,
+          connection_uri: connectionUri,
+          backup_reason: reason
+        });
+      } catch (error) {
+        // Keep going so one broken database doesn't hide the others on the branch
+        console.error(`❌ Could not get connection URI for database ${database.name} on branch ${branch.name}:`, error);
+        this.recordSkip(project, branch, 'error', `Could not get connection URI: ${error instanceof Error ? error.message : String(error)}`, database.name);
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Check whether a database changed after its newest backup; databases that were never backed up always qualify
+   */
+  private checkDatabaseSinceLastBackup(
+    project: NeonProject,
+    branch: NeonBranch,
+    database: NeonDatabase,
+    latestBackups: Map<string, Date>
+  ): boolean {
+    const prefix = [project.name, branch.name, database.name].map(sanitizeBackupNamePart).join('_');
+    const lastBackup = latestBackups.get(prefix);
+
+    if (!lastBackup) {
+      console.log(`📊 Database ${database.name} on branch ${branch.name} has no backup yet - Active`);
+      return true;
+    }
+
+    return this.checkBranchActivity(branch, lastBackup);
+  }
+
   /**
    * Get connection URI for a branch with automatic role detection
    */
   async getBranchConnectionUri(projectId: string, branchId: string, databaseName: string = 'neondb'): Promise<string> {
     try {
       // First, get available roles for the branch
-      const rolesResponse = await this.apiClient.listProjectBranchRoles(projectId, branchId);
+      const rolesResponse = await this.callApi(`Listing roles of ${branchId}`, () => this.apiClient.listProjectBranchRoles(projectId, branchId));
       const roles = rolesResponse.data.roles;
       
       if (roles.length === 0) {
@@ -128,7 +290,7 @@ export class NeonDiscoveryService {
       console.log(`🔑 Using role '${roleName}' for branch ${branchId}`);
       
       // Get databases for the branch to find the correct database name
-      const dbResponse = await this.apiClient.listProjectBranchDatabases(projectId, branchId);
+      const dbResponse = await this.callApi(`Listing databases of ${branchId}`, () => this.apiClient.listProjectBranchDatabases(projectId, branchId));
       const databases = dbResponse.data.databases;
       
       // Use the provided database name if it exists, otherwise use the first available database
@@ -141,12 +303,12 @@ export class NeonDiscoveryService {
         }
       }
       
-      const response = await this.apiClient.getConnectionUri({
+      const response = await this.callApi(`Getting the connection URI of ${actualDatabaseName}`, () => this.apiClient.getConnectionUri({
         projectId: projectId,
         database_name: actualDatabaseName,
         branch_id: branchId,
         role_name: roleName
-      });
+      }));
       
       return response.data.uri;
     } catch (error) {
@@ -156,17 +318,88 @@ export class NeonDiscoveryService {
   }
 
   /**
-   * Discover all projects and branches with recent activity
+   * Create a new branch with an empty database to restore a backup into
+   */
+  async createRestoreBranch(projectId: string, branchName: string, databaseName: string): Promise<string> {
+    try {
+      console.log(`🌿 Creating branch '${branchName}' in project ${projectId}...`);
+      const branchResponse = await this.callApi(`Creating branch '${branchName}'`, () => this.apiClient.createProjectBranch(projectId, {
+        branch: { name: branchName },
+        endpoints: [{ type: EndpointType.ReadWrite }]
+      }), false);
+      const branchId = branchResponse.data.branch.id;
+      await this.waitForOperations(projectId, branchResponse.data.operations);
+
+      const roles = branchResponse.data.roles;
+      if (roles.length === 0) {
+        throw new Error(`No roles found for branch ${branchId}`);
+      }
+      const ownerName = roles[0].name;
+
+      // A child branch inherits its parent's databases, so restore into a fresh one to avoid conflicts
+      console.log(`🗄️  Creating database '${databaseName}' owned by '${ownerName}' on branch ${branchId}...`);
+      const dbResponse = await this.callApi(`Creating database '${databaseName}'`, () => this.apiClient.createProjectBranchDatabase(projectId, branchId, {
+        database: { name: databaseName, owner_name: ownerName }
+      }), false);
+      await this.waitForOperations(projectId, dbResponse.data.operations);
+
+      console.log(`✅ Branch '${branchName}' (${branchId}) ready for restore`);
+      return await this.getBranchConnectionUri(projectId, branchId, databaseName);
+    } catch (error) {
+      console.error(`❌ Error creating restore branch '${branchName}':`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Poll Neon operations until they have all finished
    */
-  async discoverActiveResources(): Promise<DatabaseActivity[]> {
-    console.log('🚀 Starting discovery of active Neon resources...');
+  private async waitForOperations(projectId: string, operations: Operation[], timeoutMs: number = 120000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    const pending = new Set(operations.map(operation => operation.id));
+
+    while (pending.size > 0) {
+      for (const operationId of Array.from(pending)) {
+        const response = await this.callApi(`Polling operation ${operationId}`, () => this.apiClient.getProjectOperation(projectId, operationId));
+        const { status, action, error } = response.data.operation;
+
+        if (status === OperationStatus.Finished || status === OperationStatus.Skipped) {
+          pending.delete(operationId);
+        } else if (status === OperationStatus.Failed || status === OperationStatus.Error || status === OperationStatus.Cancelled) {
+          throw new Error(`Neon operation ${action} (${operationId}) ended with status ${status}${error ? `: ${error}` : ''}`);
+        }
+      }
+
+      if (pending.size === 0) {
+        break;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${pending.size} Neon operations to finish`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 2000));
+    }
+  }
+
+  /**
+   * Discover all projects and branches with recent activity.
+   * In since-last-backup mode, latestBackups maps each "<project>_<branch>_<database>" backup name prefix to its newest backup.
+   */
+  async discoverActiveResources(latestBackups: Map<string, Date> = new Map()): Promise<DatabaseActivity[]> {
+    console.log(`🚀 Starting discovery of Neon resources updated ${describeActivityWindow(this.activityWindow)}...`);
     const activeResources: DatabaseActivity[] = [];
+    this.skippedResources = [];
 
     try {
       // Discover all projects
       const projects = await this.discoverProjects();
 
       for (const project of projects) {
+        if (!this.filter.includesProject(project)) {
+          console.log(`\n⏭️  Project ${project.name} (${project.id}) is excluded by the project filters - skipping`);
+          this.recordSkip(project, undefined, 'filtered', 'Excluded by project filter');
+          continue;
+        }
+
         console.log(`\n📁 Processing project: ${project.name} (${project.id})`);
         
         try {
@@ -174,51 +407,87 @@ export class NeonDiscoveryService {
           const branches = await this.discoverBranches(project.id);
 
           for (const branch of branches) {
+            if (!this.filter.includesBranch(project, branch.name)) {
+              console.log(`\n⏭️  Branch ${branch.name} is excluded by the branch filters - skipping`);
+              this.recordSkip(project, branch, 'filtered', 'Excluded by branch filter');
+              continue;
+            }
+
             console.log(`\n🌿 Checking branch: ${branch.name} (${branch.id})`);
             
             try {
+              if (this.activityWindow.mode === 'since-last-backup') {
+                // Compare every database against its own newest backup so a missed run is caught up
+                const resources = await this.getBranchResources(project, branch, database => {
+                  if (!this.includesDatabase(project, branch, database)) {
+                    return false;
+                  }
+                  if (this.filter.isForced(project, branch.name, database.name)) {
+                    console.log(`📌 Database ${database.name} on branch ${branch.name} is forced - Active`);
+                    return 'forced';
+                  }
+
+                  if (this.checkDatabaseSinceLastBackup(project, branch, database, latestBackups)) {
+                    return 'active';
+                  }
+                  this.recordSkip(project, branch, 'inactive', 'No changes since the last backup', database.name);
+                  return false;
+                });
+                activeResources.push(...resources);
+
+                if (resources.length > 0) {
+                  console.log(`✅ Branch ${branch.name} changed since its last backup - ${resources.length} databases will be backed up`);
+                } else {
+                  console.log(`⏭️  Branch ${branch.name} has no changes since its last backup - skipping`);
+                }
+                continue;
+              }
+
               // Check for recent activity using branch updated_at timestamp
               const hasRecentActivity = this.checkBranchActivity(branch);
               
-              if (hasRecentActivity) {
-                // Get connection URI for backup
-                const connectionUri = await this.getBranchConnectionUri(project.id, branch.id);
-                
-                activeResources.push({
-                  project_id: project.id,
-                  project_name: project.name,
-                  branch_id: branch.id,
-                  branch_name: branch.name,
-                  has_recent_activity: true,
-                  last_activity_date: branch.updated_at,
-                  connection_uri: connectionUri
+              if (hasRecentActivity || this.filter.isForced(project, branch.name)) {
+                // Back up every database on the branch, not only the default one; without activity only the forced ones
+                const resources = await this.getBranchResources(project, branch, database => {
+                  if (!this.includesDatabase(project, branch, database)) {
+                    return false;
+                  }
+                  if (hasRecentActivity) {
+                    return 'active';
+                  }
+                  if (this.filter.isForced(project, branch.name, database.name)) {
+                    return 'forced';
+                  }
+
+                  this.recordSkip(project, branch, 'inactive', `No activity ${describeActivityWindow(this.activityWindow)}`, database.name);
+                  return false;
                 });
+                activeResources.push(...resources);
 
-                console.log(`✅ Branch ${branch.name} has recent activity - will be backed up`);
+                console.log(hasRecentActivity
+                  ? `✅ Branch ${branch.name} has recent activity - ${resources.length} databases will be backed up`
+                  : `📌 Branch ${branch.name} is forced - ${resources.length} databases will be backed up`);
               } else {
                 console.log(`⏭️  Branch ${branch.name} has no recent activity - skipping`);
+                this.recordSkip(project, branch, 'inactive', `No activity ${describeActivityWindow(this.activityWindow)}`);
               }
             } catch (error) {
               console.error(`⚠️  Error processing branch ${branch.name}:`, error);
               // Add to backup list anyway if we can't determine activity
               try {
-                const connectionUri = await this.getBranchConnectionUri(project.id, branch.id);
-                activeResources.push({
-                  project_id: project.id,
-                  project_name: project.name,
-                  branch_id: branch.id,
-                  branch_name: branch.name,
-                  has_recent_activity: true, // Assume active if we can't check
-                  last_activity_date: branch.updated_at,
-                  connection_uri: connectionUri
-                });
+                // Assume active if we can't check
+                activeResources.push(...await this.getBranchResources(project, branch, database =>
+                  this.includesDatabase(project, branch, database) && 'activity-unknown'
+                ));
               } catch (uriError) {
-                console.error(`❌ Could not get connection URI for branch ${branch.name}:`, uriError);
+                console.error(`❌ Could not get connection URIs for branch ${branch.name}:`, uriError);
+                this.recordSkip(project, branch, 'error', `Could not get connection URIs: ${uriError instanceof Error ? uriError.message : String(uriError)}`);
               }
             }
           }
         } catch (error) {
           console.error(`❌ Error processing project ${project.name}:`, error);
+          this.recordSkip(project, undefined, 'error', `Could not list branches: ${error instanceof Error ? error.message : String(error)}`);
           continue;
         }
       }
@@ -231,4 +500,36 @@ export class NeonDiscoveryService {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Apply the database filters, recording excluded databases as skipped
+   */
+  private includesDatabase(project: NeonProject, branch: NeonBranch, database: NeonDatabase): boolean {
+    if (this.filter.includesDatabase(project, branch.name, database.name)) {
+      return true;
+    }
+
+    console.log(`⏭️  Database ${database.name} on branch ${branch.name} is excluded by the database filters - skipping`);
+    this.recordSkip(project, branch, 'filtered', 'Excluded by database filter', database.name);
+    return false;
+  }
+
+  /**
+   * Branches and databases the last discovery run left out, with the reason
+   */
+  getSkippedResources(): SkippedResource[] {
+    return this.skippedResources;
+  }
+
+  private recordSkip(project: NeonProject, branch: NeonBranch | undefined, kind: SkipKind, reason: string, databaseName?: string): void {
+    this.skippedResources.push({
+      project_id: project.id,
+      project_name: project.name,
+      branch_id: branch?.id,
+      branch_name: branch?.name,
+      database_name: databaseName,
+      kind,
+      reason
+    });
+  }
+}
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { SMTPServer } from 'smtp-server';
+import { EmailNotifier, NotificationService, NotifyOn, SlackNotifier, WebhookNotifier } from './notifications';
+import { RunReport, RunStatus } from './run-report';
+
+interface ReceivedRequest {
+  method?: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP stand-in for webhook endpoints that records every request and answers with `status`
+ */
+async function startHttpStandIn(status = 200): Promise<{ url: string; requests: ReceivedRequest[]; server: Server }> {
+  const requests: ReceivedRequest[] = [];
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => body += chunk);
+    request.on('end', () => {
+      requests.push({ method: request.method, headers: request.headers, body });
+      response.writeHead(status, { 'Content-Type': 'text/plain' });
+      response.end(status === 200 ? 'ok' : 'unavailable');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`, requests, server };
+}
+
+function createReport(status: RunStatus): RunReport {
+  const failed = status !== 'success';
+  return {
+    schemaVersion: 1,
+    status,
+    startedAt: '2024-05-01T02:00:00.000Z',
+    finishedAt: '2024-05-01T02:05:00.000Z',
+    storage: 'Google Drive',
+    activityWindow: '24h',
+    discovered: [],
+    skipped: [],
+    backups: [
+      { projectName: 'shop', branchName: 'main', databaseName: 'orders', success: true, encrypted: false, upload: { success: true } },
+      ...(failed ? [{ projectName: 'shop', branchName: 'dev', databaseName: 'orders', success: false, encrypted: false, error: 'pg_dump exited with code 1' }] : [])
+    ],
+    deletedFiles: [],
+    totals: {
+      discovered: failed ? 2 : 1,
+      skipped: 0,
+      successfulBackups: 1,
+      failedBackups: failed ? 1 : 0,
+      successfulUploads: 1,
+      failedUploads: 0,
+      backupSizeBytes: 1024,
+      deletedFiles: 0
+    },
+    timings: { totalMs: 300000 },
+    retries: {}
+  };
+}
+
+describe('notifications', () => {
+  const servers: { close(callback?: () => void): unknown }[] = [];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(() => resolve(undefined)))));
+  });
+
+  it('POSTs the summary and the full run report to a webhook as JSON', async () => {
+    const standIn = await startHttpStandIn();
+    servers.push(standIn.server);
+    const report = createReport('partial');
+
+    await new WebhookNotifier({ url: standIn.url }).send(report);
+
+    expect(standIn.requests).toHaveLength(1);
+    expect(standIn.requests[0].method).toBe('POST');
+    expect(standIn.requests[0].headers['content-type']).toBe('application/json');
+    expect(JSON.parse(standIn.requests[0].body)).toEqual({
+      event: 'neon-backup.run-completed',
+      status: 'partial',
+      summary: '⚠️ Neon backup partial: 1 of 2 backups, 1 uploaded to Google Drive',
+      report
+    });
+  });
+
+  it('sends Slack a text payload that lists the failed databases', async () => {
+    const standIn = await startHttpStandIn();
+    servers.push(standIn.server);
+
+    await new SlackNotifier({ url: standIn.url }).send(createReport('failed'));
+
+    const payload = JSON.parse(standIn.requests[0].body);
+    expect(Object.keys(payload)).toEqual(['text']);
+    expect(payload.text).toMatch(/^\*❌ Neon backup failed: 1 of 2 backups, 1 uploaded to Google Drive\*\n/);
+    expect(payload.text).toContain('Failed databases:\n- shop/dev/orders: pg_dump exited with code 1');
+  });
+
+  it('rejects when the endpoint answers with an error status', async () => {
+    const standIn = await startHttpStandIn(503);
+    servers.push(standIn.server);
+
+    await expect(new WebhookNotifier({ url: standIn.url }).send(createReport('failed')))
+      .rejects.toThrow('HTTP 503 Service Unavailable: unavailable');
+  });
+
+  const thresholds: [NotifyOn, RunStatus, number][] = [
+    ['always', 'success', 1],
+    ['problems', 'success', 0],
+    ['problems', 'partial', 1],
+    ['failure', 'partial', 0],
+    ['failure', 'failed', 1]
+  ];
+
+  it.each(thresholds)('with notifyOn %s, a %s run sends %i notifications', async (notifyOn, status, expected) => {
+    const webhook = await startHttpStandIn();
+    const slack = await startHttpStandIn();
+    servers.push(webhook.server, slack.server);
+
+    await new NotificationService([
+      new WebhookNotifier({ url: webhook.url, notifyOn }),
+      new SlackNotifier({ url: slack.url, notifyOn })
+    ]).notify(createReport(status));
+
+    expect(webhook.requests).toHaveLength(expected);
+    expect(slack.requests).toHaveLength(expected);
+  });
+
+  it('keeps notifying the other channels when one cannot be reached', async () => {
+    const failing = await startHttpStandIn(500);
+    const working = await startHttpStandIn();
+    servers.push(failing.server, working.server);
+
+    await new NotificationService([
+      new WebhookNotifier({ url: failing.url }),
+      new SlackNotifier({ url: working.url })
+    ]).notify(createReport('failed'));
+
+    expect(failing.requests).toHaveLength(1);
+    expect(working.requests).toHaveLength(1);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Could not send webhook notification: HTTP 500'));
+  });
+
+  it('emails the summary with the run report attached through SMTP', async () => {
+    const messages: { from?: string; to: string[]; data: string }[] = [];
+    const smtp = new SMTPServer({
+      disabledCommands: ['STARTTLS', 'AUTH'],
+      logger: false,
+      onData(stream, session, callback) {
+        let data = '';
+        stream.on('data', chunk => data += chunk);
+        stream.on('end', () => {
+          const { mailFrom, rcptTo } = session.envelope;
+          messages.push({ from: mailFrom ? mailFrom.address : undefined, to: rcptTo.map(rcpt => rcpt.address), data });
+          callback();
+        });
+      }
+    });
+    await new Promise<void>(resolve => smtp.listen(0, '127.0.0.1', () => resolve()));
+    servers.push(smtp);
+
+    await new EmailNotifier({
+      host: '127.0.0.1',
+      port: (smtp.server.address() as AddressInfo).port,
+      from: 'backups@example.com',
+      to: ['ops@example.com', 'dba@example.com']
+    }).send(createReport('failed'));
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].from).toBe('backups@example.com');
+    expect(messages[0].to).toEqual(['ops@example.com', 'dba@example.com']);
+    expect(messages[0].data).toMatch(/^Subject: =\?UTF-8\?/m);
+    expect(messages[0].data).toContain('shop/dev/orders: pg_dump exited with code 1');
+    expect(messages[0].data).toContain('filename=neon-backup-report.json');
+  });
+});
@@ -0,0 +1,246 @@
+import nodemailer from 'nodemailer';
+import { RunReport, RunStatus, describeReportSource } from './run-report';
+
+/**
+ * When a channel is notified: after every run, only when something went wrong, or only when the run failed
+ */
+export type NotifyOn = 'always' | 'problems' | 'failure';
+
+export const NOTIFY_ON_VALUES: NotifyOn[] = ['always', 'problems', 'failure'];
+
+const NOTIFIED_STATUSES: Record<NotifyOn, RunStatus[]> = {
+  always: ['success', 'partial', 'failed'],
+  problems: ['partial', 'failed'],
+  failure: ['failed']
+};
+
+const STATUS_ICONS: Record<RunStatus, string> = {
+  success: '✅',
+  partial: '⚠️',
+  failed: '❌'
+};
+
+// Failed databases listed in a message; the run report has all of them
+const MAX_LISTED_FAILURES = 20;
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * A channel that is told about the outcome of a backup run
+ */
+export interface Notifier {
+  readonly name: string;
+  readonly notifyOn: NotifyOn;
+  send(report: RunReport): Promise<void>;
+}
+
+export interface WebhookNotifierConfig {
+  url: string;
+  notifyOn?: NotifyOn;
+}
+
+export interface EmailNotifierConfig {
+  host: string;
+  port?: number; // Default: 465 when secure, 587 otherwise
+  secure?: boolean; // TLS from the start instead of STARTTLS
+  user?: string;
+  password?: string;
+  from: string;
+  to: string[];
+  notifyOn?: NotifyOn;
+}
+
+export interface NotificationConfig {
+  webhook?: WebhookNotifierConfig;
+  slack?: WebhookNotifierConfig;
+  email?: EmailNotifierConfig;
+}
+
+/**
+ * Parse a notification threshold setting
+ */
+export function parseNotifyOn(name: string, value: string): NotifyOn {
+  if (!NOTIFY_ON_VALUES.includes(value as NotifyOn)) {
+    throw new Error(`${name} must be one of ${NOTIFY_ON_VALUES.join(', ')}, got '${value}'`);
+  }
+  return value as NotifyOn;
+}
+
+/**
+ * Subject line and plain-text body describing a run
+ */
+export function formatRunSummary(report: RunReport): { subject: string; lines: string[] } {
+  const subject = `${STATUS_ICONS[report.status]} Neon backup ${report.status}: ` +
+    `${report.totals.successfulBackups} of ${report.backups.length} backups, ` +
+    `${report.totals.successfulUploads} uploaded to ${report.storage}`;
+
+  const lines = [
+    `Started: ${report.startedAt}`,
+    `Finished: ${report.finishedAt}`,
+    `Discovered: ${report.totals.discovered}, skipped: ${report.totals.skipped}`,
+    `Failed backups: ${report.totals.failedBackups}, failed uploads: ${report.totals.failedUploads}`,
+    `Old files deleted: ${report.totals.deletedFiles}`
+  ];
+
+  if (report.error) {
+    lines.push('', `Error: ${report.error}`);
+  }
+
+  const failures = report.backups.filter(backup => !backup.success || (backup.upload && !backup.upload.success));
+  if (failures.length > 0) {
+    lines.push('', 'Failed databases:');
+    for (const backup of failures.slice(0, MAX_LISTED_FAILURES)) {
+      lines.push(`- ${describeReportSource(backup)}: ${backup.error || backup.upload?.error || 'unknown error'}`);
+    }
+    if (failures.length > MAX_LISTED_FAILURES) {
+      lines.push(`- ... and ${failures.length - MAX_LISTED_FAILURES} more, see the run report`);
+    }
+  }
+
+  return { subject, lines };
+}
+
+/**
+ * POST a JSON body, failing on any non-2xx answer
+ */
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+}
+
+/**
+ * Generic webhook: POSTs a short summary and the full run report as JSON
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name = 'webhook';
+  readonly notifyOn: NotifyOn;
+  private url: string;
+
+  constructor(config: WebhookNotifierConfig) {
+    this.url = config.url;
+    this.notifyOn = config.notifyOn || 'problems';
+  }
+
+  async send(report: RunReport): Promise<void> {
+    const { subject } = formatRunSummary(report);
+    await postJson(this.url, {
+      event: 'neon-backup.run-completed',
+      status: report.status,
+      summary: subject,
+      report
+    });
+  }
+}
+
+/**
+ * Slack incoming webhook; Mattermost, Rocket.Chat and Discord's /slack endpoint accept the same payload
+ */
+export class SlackNotifier implements Notifier {
+  readonly name = 'Slack';
+  readonly notifyOn: NotifyOn;
+  private url: string;
+
+  constructor(config: WebhookNotifierConfig) {
+    this.url = config.url;
+    this.notifyOn = config.notifyOn || 'problems';
+  }
+
+  async send(report: RunReport): Promise<void> {
+    const { subject, lines } = formatRunSummary(report);
+    await postJson(this.url, {
+      text: `*${subject}*\n${lines.join('\n')}`
+    });
+  }
+}
+
+/**
+ * Email through an SMTP server, with the run report attached
+ */
+export class EmailNotifier implements Notifier {
+  readonly name = 'email';
+  readonly notifyOn: NotifyOn;
+  private config: EmailNotifierConfig;
+
+  constructor(config: EmailNotifierConfig) {
+    this.config = config;
+    this.notifyOn = config.notifyOn || 'problems';
+  }
+
+  async send(report: RunReport): Promise<void> {
+    const { subject, lines } = formatRunSummary(report);
+    const transport = nodemailer.createTransport({
+      host: this.config.host,
+      port: this.config.port || (this.config.secure ? 465 : 587),
+      secure: !!this.config.secure,
+      auth: this.config.user ? { user: this.config.user, pass: this.config.password } : undefined,
+      connectionTimeout: REQUEST_TIMEOUT_MS
+    });
+
+    try {
+      await transport.sendMail({
+        from: this.config.from,
+        to: this.config.to,
+        subject,
+        text: lines.join('\n'),
+        attachments: [{
+          filename: 'neon-backup-report.json',
+          content: JSON.stringify(report, null, 2),
+          contentType: 'application/json'
+        }]
+      });
+    } finally {
+      transport.close();
+    }
+  }
+}
+
+/**
+ * Create the channels that are configured
+ */
+export function createNotifiers(config: NotificationConfig): Notifier[] {
+  const notifiers: Notifier[] = [];
+  if (config.webhook) notifiers.push(new WebhookNotifier(config.webhook));
+  if (config.slack) notifiers.push(new SlackNotifier(config.slack));
+  if (config.email) notifiers.push(new EmailNotifier(config.email));
+  return notifiers;
+}
+
+/**
+ * Sends the outcome of a run to every channel whose threshold it meets.
+ * A channel that cannot be reached is logged and never fails the run.
+ */
+export class NotificationService {
+  private notifiers: Notifier[];
+
+  constructor(notifiers: Notifier[]) {
+    this.notifiers = notifiers;
+  }
+
+  async notify(report: RunReport): Promise<void> {
+    const notifiers = this.notifiers.filter(notifier => NOTIFIED_STATUSES[notifier.notifyOn].includes(report.status));
+    if (notifiers.length === 0) {
+      return;
+    }
+
+    console.log(`\n📣 Sending ${report.status} notification via ${notifiers.map(n => n.name).join(', ')}...`);
+
+    const results = await Promise.allSettled(notifiers.map(notifier => notifier.send(report)));
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        console.error(`⚠️  Could not send ${notifiers[i].name} notification: ${reason}`);
+      } else {
+        console.log(`✅ Sent ${notifiers[i].name} notification`);
+      }
+    });
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Include/exclude rules for discovery. Patterns are globs (`*` any characters, `?` one character)
+ * or regular expressions written as `/expression/flags`.
+ */
+export interface ResourceFilterConfig {
+  includeProjects?: string[]; // Matched against project name and ID; empty includes everything
+  excludeProjects?: string[];
+  includeBranches?: string[];
+  excludeBranches?: string[];
+  includeDatabases?: string[];
+  excludeDatabases?: string[];
+  force?: ResourceSelector[]; // Backed up on every run, regardless of activity
+  scoped?: ScopedFilterConfig[]; // Branch and database rules for specific projects/branches
+}
+
+/**
+ * Branch and database rules for the projects and branches matching `project` and `branch`.
+ * A list set here replaces the global list of the same kind; later entries win.
+ */
+export interface ScopedFilterConfig {
+  project?: string;
+  branch?: string;
+  includeBranches?: string[];
+  excludeBranches?: string[];
+  includeDatabases?: string[];
+  excludeDatabases?: string[];
+}
+
+type ScopedListKey = 'includeBranches' | 'excludeBranches' | 'includeDatabases' | 'excludeDatabases';
+
+const SCOPED_LIST_KEYS: ScopedListKey[] = ['includeBranches', 'excludeBranches', 'includeDatabases', 'excludeDatabases'];
+
+/**
+ * Patterns selecting resources; an omitted part matches everything
+ */
+export interface ResourceSelector {
+  project?: string;
+  branch?: string;
+  database?: string;
+}
+
+export interface ProjectRef {
+  id: string;
+  name: string;
+}
+
+/**
+ * Whether a project pattern matches the project name or ID
+ */
+export function matchesProject(pattern: RegExp, project: ProjectRef): boolean {
+  return pattern.test(project.name) || pattern.test(project.id);
+}
+
+/**
+ * Turn a glob or `/regex/flags` pattern into an anchored regular expression
+ */
+export function compilePattern(pattern: string): RegExp {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2]);
+    } catch (error) {
+      throw new Error(`Invalid regular expression '${pattern}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Split a comma- or newline-separated list of patterns
+ */
+export function parsePatternList(value: string): string[] {
+  return value.split(/[,\n]/).map(p => p.trim()).filter(Boolean);
+}
+
+/**
+ * Parse force selectors written as `project:branch[:database]`, e.g. `*:main` or `shop:main:orders`
+ */
+export function parseSelectorList(value: string): ResourceSelector[] {
+  return parsePatternList(value).map(entry => {
+    const parts = entry.split(':').map(part => part.trim());
+    if (parts.length < 2 || parts.length > 3 || parts.some(part => !part)) {
+      throw new Error(`Invalid force selector '${entry}'. Use project:branch or project:branch:database, e.g. '*:main'`);
+    }
+
+    const [project, branch, database] = parts;
+    return { project, branch, database };
+  });
+}
+
+/**
+ * Applies include/exclude rules and force selectors during discovery
+ */
+export class ResourceFilter {
+  private includeProjects: RegExp[];
+  private excludeProjects: RegExp[];
+  private includeBranches: RegExp[];
+  private excludeBranches: RegExp[];
+  private includeDatabases: RegExp[];
+  private excludeDatabases: RegExp[];
+  private force: { project?: RegExp; branch?: RegExp; database?: RegExp }[];
+  private scoped: { project?: RegExp; branch?: RegExp; lists: Partial<Record<ScopedListKey, RegExp[]>> }[];
+
+  constructor(config: ResourceFilterConfig = {}) {
+    const compile = (patterns?: string[]) => (patterns || []).map(compilePattern);
+
+    this.includeProjects = compile(config.includeProjects);
+    this.excludeProjects = compile(config.excludeProjects);
+    this.includeBranches = compile(config.includeBranches);
+    this.excludeBranches = compile(config.excludeBranches);
+    this.includeDatabases = compile(config.includeDatabases);
+    this.excludeDatabases = compile(config.excludeDatabases);
+    this.force = (config.force || []).map(selector => ({
+      project: selector.project ? compilePattern(selector.project) : undefined,
+      branch: selector.branch ? compilePattern(selector.branch) : undefined,
+      database: selector.database ? compilePattern(selector.database) : undefined
+    }));
+    this.scoped = (config.scoped || []).map(scope => {
+      const lists: Partial<Record<ScopedListKey, RegExp[]>> = {};
+      for (const key of SCOPED_LIST_KEYS) {
+        if (scope[key]) {
+          lists[key] = compile(scope[key]);
+        }
+      }
+      return {
+        project: scope.project ? compilePattern(scope.project) : undefined,
+        branch: scope.branch ? compilePattern(scope.branch) : undefined,
+        lists
+      };
+    });
+  }
+
+  /**
+   * Whether any rule is configured, used to keep logs quiet otherwise
+   */
+  isEmpty(): boolean {
+    return [
+      this.includeProjects, this.excludeProjects,
+      this.includeBranches, this.excludeBranches,
+      this.includeDatabases, this.excludeDatabases,
+      this.force,
+      this.scoped
+    ].every(list => list.length === 0);
+  }
+
+  includesProject(project: ProjectRef): boolean {
+    return this.isIncluded(pattern => matchesProject(pattern, project), this.includeProjects, this.excludeProjects);
+  }
+
+  includesBranch(project: ProjectRef, branchName: string): boolean {
+    const lists = this.listsFor(project, branchName);
+    return this.isIncluded(pattern => pattern.test(branchName), lists.includeBranches, lists.excludeBranches);
+  }
+
+  includesDatabase(project: ProjectRef, branchName: string, databaseName: string): boolean {
+    const lists = this.listsFor(project, branchName);
+    return this.isIncluded(pattern => pattern.test(databaseName), lists.includeDatabases, lists.excludeDatabases);
+  }
+
+  /**
+   * Whether a force selector covers the branch; without a database name any database selector on it counts
+   */
+  isForced(project: ProjectRef, branchName: string, databaseName?: string): boolean {
+    return this.force.some(selector =>
+      (!selector.project || matchesProject(selector.project, project)) &&
+      (!selector.branch || selector.branch.test(branchName)) &&
+      (!selector.database || databaseName === undefined || selector.database.test(databaseName))
+    );
+  }
+
+  /**
+   * Branch and database lists for a branch, with the matching scoped lists replacing the global ones
+   */
+  private listsFor(project: ProjectRef, branchName: string): Record<ScopedListKey, RegExp[]> {
+    const lists: Record<ScopedListKey, RegExp[]> = {
+      includeBranches: this.includeBranches,
+      excludeBranches: this.excludeBranches,
+      includeDatabases: this.includeDatabases,
+      excludeDatabases: this.excludeDatabases
+    };
+
+    for (const scope of this.scoped) {
+      if ((!scope.project || matchesProject(scope.project, project)) && (!scope.branch || scope.branch.test(branchName))) {
+        Object.assign(lists, scope.lists);
+      }
+    }
+    return lists;
+  }
+
+  private isIncluded(matches: (pattern: RegExp) => boolean, include: RegExp[], exclude: RegExp[]): boolean {
+    if (include.length > 0 && !include.some(matches)) {
+      return false;
+    }
+    return !exclude.some(matches);
+  }
+}
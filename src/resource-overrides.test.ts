@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { DatabaseActivity } from './neon-discovery';
+import { ResourceOverrides } from './resource-overrides';
+import { parseRetentionPolicy } from './retention-policy';
+
+const FALLBACK = parseRetentionPolicy('30d');
+
+function resource(projectName: string, branchName: string, databaseName = 'orders'): DatabaseActivity {
+  return {
+    project_id: `${projectName}-id`,
+    project_name: projectName,
+    branch_id: `${branchName}-id`,
+    branch_name: branchName,
+    database_name: databaseName,
+    has_recent_activity: true,
+    connection_uri: `postgresql://backup@127.0.0.1:5432/${databaseName}`
+  };
+}
+
+describe('ResourceOverrides', () => {
+  const overrides = new ResourceOverrides([
+    { project: 'shop', retention: '7d' },
+    { project: 'shop', branch: 'release-*', retention: '14d,12m' },
+    { branch: 'preview-*', compression: { codec: 'none' } }
+  ]);
+
+  it('lets a per-branch override win over a per-project one', () => {
+    expect(overrides.resolve({ id: 'shop-id', name: 'shop' }, 'release-2024').retention).toEqual(parseRetentionPolicy('14d,12m'));
+    expect(overrides.resolve({ id: 'shop-id', name: 'shop' }, 'main').retention).toEqual(parseRetentionPolicy('7d'));
+  });
+
+  it('keeps the retention of earlier matches when a later override sets none', () => {
+    const resolved = overrides.resolve({ id: 'shop-id', name: 'shop' }, 'preview-42');
+
+    expect(resolved.retention).toEqual(parseRetentionPolicy('7d'));
+    expect(resolved.compression).toEqual({ codec: 'none' });
+  });
+
+  describe('createRetentionResolver', () => {
+    it('resolves the prefixes of this run exactly', () => {
+      const resolve = overrides.createRetentionResolver([resource('shop', 'release-1'), resource('blog', 'main')], FALLBACK);
+
+      expect(resolve('shop_release-1_orders', 'full')).toEqual(parseRetentionPolicy('14d,12m'));
+      expect(resolve('blog_main_orders', 'full')).toBe(FALLBACK);
+    });
+
+    it('matches the prefixes of older backups on their names, branch overrides first', () => {
+      const resolve = overrides.createRetentionResolver([], FALLBACK);
+
+      expect(resolve('shop_release-7_orders', 'full')).toEqual(parseRetentionPolicy('14d,12m'));
+      expect(resolve('shop_main_orders', 'full')).toEqual(parseRetentionPolicy('7d'));
+      expect(resolve('blog_release-7_orders', 'full')).toBe(FALLBACK);
+    });
+
+    it('tries every split of names that contain underscores', () => {
+      const resolve = new ResourceOverrides([{ project: 'web_shop', branch: 'hot_fix', retention: '3d' }])
+        .createRetentionResolver([], FALLBACK);
+
+      expect(resolve('web_shop_hot_fix_order_items', 'full')).toEqual(parseRetentionPolicy('3d'));
+      expect(resolve('web_shop_main_order_items', 'full')).toBe(FALLBACK);
+    });
+
+    it('falls back to the policy of the backup mode before the run policy', () => {
+      const schema = parseRetentionPolicy('90d');
+      const resolve = overrides.createRetentionResolver([], FALLBACK, { 'schema-only': schema });
+
+      expect(resolve('blog_main_orders', 'schema-only')).toBe(schema);
+      expect(resolve('blog_main_orders', 'data-only')).toBe(FALLBACK);
+      expect(resolve('shop_main_orders', 'schema-only')).toEqual(parseRetentionPolicy('7d'));
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { BackupMode, sanitizeBackupNamePart } from './backup-service';
+import { DumpSettings, EncryptionSettings, ResourceOverride } from './config-file';
+import { CompressionSettings } from './compression';
+import { DatabaseActivity } from './neon-discovery';
+import { ProjectRef, compilePattern, matchesProject } from './resource-filter';
+import { RetentionPolicy, RetentionPolicyResolver, parseRetentionPolicy } from './retention-policy';
+
+/**
+ * Settings of one branch after applying every matching override
+ */
+export interface ResolvedOverride {
+  dump: DumpSettings;
+  compression: CompressionSettings;
+  retention?: RetentionPolicy;
+  folder?: string;
+  schedule?: string;
+  encryption: EncryptionSettings;
+}
+
+interface CompiledOverride {
+  project?: RegExp;
+  branch?: RegExp;
+  override: ResourceOverride;
+  retention?: RetentionPolicy;
+}
+
+/**
+ * Resolves the per-project and per-branch overrides of the config file
+ */
+export class ResourceOverrides {
+  private overrides: CompiledOverride[];
+
+  constructor(overrides: ResourceOverride[] = []) {
+    this.overrides = overrides.map(override => ({
+      project: override.project ? compilePattern(override.project) : undefined,
+      branch: override.branch ? compilePattern(override.branch) : undefined,
+      override,
+      retention: override.retention ? parseRetentionPolicy(override.retention) : undefined
+    }));
+  }
+
+  /**
+   * Merge the overrides matching a branch; later entries win, dump, compression and encryption settings merge key by key
+   */
+  resolve(project: ProjectRef, branchName: string): ResolvedOverride {
+    return this.merge(this.overrides.filter(entry =>
+      (!entry.project || matchesProject(entry.project, project)) &&
+      (!entry.branch || entry.branch.test(branchName))
+    ));
+  }
+
+  /**
+   * Whether any override sets its own retention policy
+   */
+  hasRetentionOverrides(): boolean {
+    return this.overrides.some(entry => entry.retention);
+  }
+
+  /**
+   * Retention policy per backup name prefix and mode: an override's policy, else the mode's policy, else `fallback`.
+   * Prefixes of this run's resources resolve exactly; older backups are matched on the names in their prefix.
+   */
+  createRetentionResolver(
+    resources: DatabaseActivity[],
+    fallback?: RetentionPolicy,
+    modePolicies: Partial<Record<BackupMode, RetentionPolicy>> = {}
+  ): RetentionPolicyResolver {
+    const known = new Map<string, RetentionPolicy | undefined>();
+    for (const resource of resources) {
+      const prefix = [resource.project_name, resource.branch_name, resource.database_name]
+        .map(sanitizeBackupNamePart)
+        .join('_');
+      const project = { id: resource.project_id, name: resource.project_name };
+      known.set(prefix, this.resolve(project, resource.branch_name).retention);
+    }
+
+    return (prefix, mode) =>
+      (known.has(prefix) ? known.get(prefix) : this.retentionForPrefix(prefix)) || modePolicies[mode] || fallback;
+  }
+
+  /**
+   * Retention override for a "<project>_<branch>_<database>" prefix. Names can contain underscores,
+   * so every way of splitting the prefix is tried until one matches an override with a retention policy.
+   */
+  private retentionForPrefix(prefix: string): RetentionPolicy | undefined {
+    const parts = prefix.split('_');
+
+    for (let branchStart = 1; branchStart < parts.length - 1; branchStart++) {
+      for (let databaseStart = branchStart + 1; databaseStart < parts.length; databaseStart++) {
+        const projectName = parts.slice(0, branchStart).join('_');
+        const branchName = parts.slice(branchStart, databaseStart).join('_');
+        const matching = this.overrides.filter(entry =>
+          entry.retention &&
+          (!entry.project || entry.project.test(projectName)) &&
+          (!entry.branch || entry.branch.test(branchName))
+        );
+        if (matching.length > 0) {
+          return matching[matching.length - 1].retention;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private merge(entries: CompiledOverride[]): ResolvedOverride {
+    const resolved: ResolvedOverride = { dump: {}, compression: {}, encryption: {} };
+
+    for (const { override, retention } of entries) {
+      resolved.dump = { ...resolved.dump, ...withoutUndefined(override.dump) };
+      resolved.compression = { ...resolved.compression, ...withoutUndefined(override.compression) };
+      resolved.encryption = { ...resolved.encryption, ...withoutUndefined(override.encryption) };
+      resolved.retention = retention || resolved.retention;
+      resolved.folder = override.folder ?? resolved.folder;
+      resolved.schedule = override.schedule ?? resolved.schedule;
+    }
+
+    return resolved;
+  }
+}
+
+function withoutUndefined<T extends object>(value?: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value || {}).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
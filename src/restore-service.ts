@@ -0,0 +1,235 @@
+import { promises as fs } from 'fs';
+import { basename, join } from 'path';
+import { BackupMode, DatabaseBackupService, getDumpFormat, getRestoreTool, parseBackupFileName, sanitizeBackupNamePart } from './backup-service';
+import { getCompressionCodec } from './compression';
+import { NeonDiscoveryService } from './neon-discovery';
+import { StorageProvider } from './storage-provider';
+import { BackupEncryptionService, isEncryptedBackup } from './encryption-service';
+
+export interface RestoreTarget {
+  connectionUri?: string; // Restore into an existing database
+  newBranch?: {
+    projectId: string;
+    branchName: string;
+    databaseName?: string; // Database created on the new branch (default: 'restored')
+  };
+}
+
+export interface RestoreOptions {
+  projectName: string;
+  branchName: string;
+  databaseName?: string; // Required when the branch has backups of several databases
+  timestamp?: string; // Prefix of the backup timestamp, e.g. '2024-05-01' or '2024-05-01T02:00'; newest if omitted
+  mode?: BackupMode; // Which tier to restore from (default: full)
+  target: RestoreTarget;
+  workDir?: string;
+}
+
+export interface BackupFileInfo {
+  fileId: string;
+  fileName: string;
+  prefix: string;
+  timestamp: Date;
+  size?: number;
+}
+
+export interface RestoreResult {
+  success: boolean;
+  backup?: BackupFileInfo;
+  target?: string;
+  connectionUri?: string;
+  error?: string;
+  duration?: number;
+}
+
+export class DatabaseRestoreService {
+  private storageProvider: StorageProvider;
+  private backupService: DatabaseBackupService;
+  private discoveryService?: NeonDiscoveryService;
+  private encryptionService?: BackupEncryptionService;
+
+  constructor(
+    storageProvider: StorageProvider,
+    backupService: DatabaseBackupService,
+    discoveryService?: NeonDiscoveryService,
+    encryptionService?: BackupEncryptionService
+  ) {
+    this.storageProvider = storageProvider;
+    this.backupService = backupService;
+    this.discoveryService = discoveryService;
+    this.encryptionService = encryptionService;
+  }
+
+  /**
+   * Find the newest backup of a project/branch/database in a mode, optionally narrowed down by timestamp
+   */
+  async findBackup(
+    projectName: string,
+    branchName: string,
+    databaseName?: string,
+    timestamp?: string,
+    mode: BackupMode = 'full'
+  ): Promise<BackupFileInfo | null> {
+    const branchPrefix = `${sanitizeBackupNamePart(projectName)}_${sanitizeBackupNamePart(branchName)}`;
+    const timestampPrefix = timestamp ? this.normalizeTimestamp(timestamp) : '';
+    const source = [projectName, branchName, databaseName].filter(Boolean).join('/');
+
+    console.log(`🔍 Looking for backup of ${source}${timestamp ? ` at ${timestamp}` : ''}...`);
+
+    // Every stored file: a cap would hide older timestamps and branches that were not backed up recently
+    const files = await this.storageProvider.listBackupFiles();
+    const candidates: BackupFileInfo[] = [];
+
+    for (const file of files) {
+      // Compressed backups of any codec, or uncompressed dumps
+      const parsed = file.name ? parseBackupFileName(file.name) : null;
+      const unencryptedName = file.name.replace(/\.gpg$/, '');
+      if (!parsed || (getCompressionCodec(unencryptedName) === 'none' && !getDumpFormat(unencryptedName))) {
+        continue;
+      }
+
+      const matchesSource = databaseName
+        ? parsed.prefix === `${branchPrefix}_${sanitizeBackupNamePart(databaseName)}`
+        : parsed.prefix === branchPrefix || parsed.prefix.startsWith(`${branchPrefix}_`);
+      if (!matchesSource || parsed.mode !== mode || !parsed.timestampLabel.startsWith(timestampPrefix)) {
+        continue;
+      }
+
+      candidates.push({
+        fileId: file.id,
+        fileName: file.name,
+        prefix: parsed.prefix,
+        timestamp: parsed.timestamp,
+        size: file.size
+      });
+    }
+
+    if (candidates.length === 0) {
+      console.log(`⚠️  No matching backup found for ${source}`);
+      return null;
+    }
+
+    const prefixes = new Set(candidates.map(candidate => candidate.prefix));
+    if (prefixes.size > 1) {
+      throw new Error(`Backups of several databases match ${source} (${Array.from(prefixes).join(', ')}). Please specify the database name.`);
+    }
+
+    candidates.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    console.log(`✅ Found ${candidates.length} matching backups, using ${candidates[0].fileName}`);
+    return candidates[0];
+  }
+
+  /**
+   * Download, extract and replay a backup into the requested target
+   */
+  async restore(options: RestoreOptions): Promise<RestoreResult> {
+    const startTime = Date.now();
+    const workDir = options.workDir || './restores';
+
+    if (!options.target.connectionUri && !options.target.newBranch) {
+      return {
+        success: false,
+        error: 'Either a target connection URI or a new branch must be provided'
+      };
+    }
+
+    let downloadPath: string | undefined;
+    let archivePath: string | undefined;
+    let dumpPath: string | undefined;
+
+    try {
+      await this.storageProvider.initialize();
+
+      const backup = await this.findBackup(options.projectName, options.branchName, options.databaseName, options.timestamp, options.mode);
+      if (!backup) {
+        throw new Error(`No backup found for ${options.projectName}/${options.branchName}${options.timestamp ? ` matching ${options.timestamp}` : ''}`);
+      }
+
+      await fs.mkdir(workDir, { recursive: true });
+      downloadPath = join(workDir, backup.fileName);
+      await this.storageProvider.downloadBackup(backup.fileId, downloadPath);
+
+      if (isEncryptedBackup(backup.fileName)) {
+        if (!this.encryptionService) {
+          throw new Error(`${backup.fileName} is encrypted. Please provide the decryption passphrase or private key.`);
+        }
+        archivePath = await this.encryptionService.decryptFile(downloadPath);
+      } else {
+        archivePath = downloadPath;
+      }
+
+      dumpPath = await this.backupService.extractBackup(archivePath, workDir);
+
+      // A ZIP can hold any dump format, so the tool is only known once the dump is extracted
+      const tool = getRestoreTool(getDumpFormat(basename(dumpPath)) || 'plain');
+      const toolAvailable = tool === 'psql'
+        ? await this.backupService.checkPsqlAvailability()
+        : await this.backupService.checkPgRestoreAvailability();
+      if (!toolAvailable) {
+        throw new Error(`${tool} not found. Please install PostgreSQL client tools.`);
+      }
+
+      const { connectionUri, target } = await this.resolveTarget(options.target);
+      const result = await this.backupService.restoreBackup(dumpPath, connectionUri);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      return {
+        success: true,
+        backup,
+        target,
+        connectionUri,
+        duration: Date.now() - startTime
+      };
+    } catch (error) {
+      console.error(`❌ Restore failed for ${options.projectName}/${options.branchName}:`, error);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        duration: Date.now() - startTime
+      };
+    } finally {
+      // Downloaded dumps contain production data, never leave them lying around
+      for (const path of [downloadPath, archivePath, dumpPath]) {
+        if (path) {
+          await fs.rm(path, { recursive: true, force: true });
+        }
+      }
+    }
+  }
+
+  /**
+   * Turn a restore target into a connection URI, creating a Neon branch if requested
+   */
+  private async resolveTarget(target: RestoreTarget): Promise<{ connectionUri: string; target: string }> {
+    if (target.connectionUri) {
+      return { connectionUri: target.connectionUri, target: 'connection URI' };
+    }
+
+    const newBranch = target.newBranch!;
+    if (!this.discoveryService) {
+      throw new Error('Neon API access is required to restore into a new branch');
+    }
+
+    const databaseName = newBranch.databaseName || 'restored';
+    const connectionUri = await this.discoveryService.createRestoreBranch(
+      newBranch.projectId,
+      newBranch.branchName,
+      databaseName
+    );
+
+    return {
+      connectionUri,
+      target: `branch ${newBranch.branchName}/${databaseName} in project ${newBranch.projectId}`
+    };
+  }
+
+  /**
+   * Convert ISO-style timestamps into the format used in backup file names
+   */
+  private normalizeTimestamp(timestamp: string): string {
+    return timestamp.trim().replace(/Z$/, '').replace('T', '_').replace(/:/g, '-');
+  }
+}
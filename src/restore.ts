@@ -0,0 +1,101 @@
+import * as core from '@actions/core';
+import { NeonDiscoveryService } from './neon-discovery';
+import { DatabaseBackupService, parseBackupMode } from './backup-service';
+import { DatabaseRestoreService, RestoreResult, RestoreTarget } from './restore-service';
+import { BackupEncryptionService } from './encryption-service';
+import { Retrier } from './retry';
+import { createStorageProvider, getConfigFile, getEncryptionConfiguration, getInput, getRetryPolicy, getStorageConfiguration } from './index';
+
+/**
+ * Pull the backup named by the RESTORE_* inputs from storage and replay it into the requested target
+ */
+export async function restoreFromInputs(): Promise<RestoreResult> {
+  const projectName = getInput('RESTORE_PROJECT', true);
+  const branchName = getInput('RESTORE_BRANCH', true);
+  const databaseName = getInput('RESTORE_DATABASE', false) || undefined;
+  const timestamp = getInput('RESTORE_TIMESTAMP', false) || undefined;
+  const mode = parseBackupMode('RESTORE_MODE', getInput('RESTORE_MODE', false).trim() || 'full');
+  const targetConnectionUri = getInput('RESTORE_TARGET_URI', false);
+  const targetProjectId = getInput('RESTORE_PROJECT_ID', false);
+  const newBranchName = getInput('RESTORE_NEW_BRANCH', false);
+
+  let target: RestoreTarget;
+  if (targetConnectionUri) {
+    target = { connectionUri: targetConnectionUri };
+  } else if (targetProjectId && newBranchName) {
+    target = {
+      newBranch: {
+        projectId: targetProjectId,
+        branchName: newBranchName,
+        databaseName: getInput('RESTORE_NEW_DATABASE', false) || undefined
+      }
+    };
+  } else {
+    throw new Error('Either RESTORE_TARGET_URI or both RESTORE_PROJECT_ID and RESTORE_NEW_BRANCH must be provided');
+  }
+
+  const configFile = await getConfigFile();
+  const retrier = new Retrier(getRetryPolicy(configFile));
+  const storageProvider = createStorageProvider(getStorageConfiguration(configFile), retrier);
+
+  const neonApiKey = getInput('NEON_API_KEY', !!target.newBranch);
+  const encryption = getEncryptionConfiguration(configFile);
+  const restoreService = new DatabaseRestoreService(
+    storageProvider,
+    new DatabaseBackupService(getInput('OUTPUT_DIR', false) || configFile.outputDir || './backups', {}, retrier),
+    neonApiKey ? new NeonDiscoveryService(neonApiKey, undefined, undefined, retrier) : undefined,
+    encryption ? new BackupEncryptionService(encryption) : undefined
+  );
+
+  return restoreService.restore({
+    projectName,
+    branchName,
+    databaseName,
+    timestamp,
+    mode,
+    target,
+    workDir: getInput('RESTORE_WORK_DIR', false) || './restores'
+  });
+}
+
+/**
+ * Restore entry point: pulls a backup from storage and replays it into a target database
+ */
+async function restoreMain(): Promise<void> {
+  try {
+    console.log('♻️  Starting Neon Database Restore Process');
+    console.log('================================================');
+
+    const result = await restoreFromInputs();
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    console.log('\n📊 RESTORE SUMMARY');
+    console.log('=================');
+    console.log(`📦 Backup: ${result.backup!.fileName} (${result.backup!.timestamp.toISOString()})`);
+    console.log(`🎯 Target: ${result.target}`);
+    console.log(`⏱️  Duration: ${result.duration}ms`);
+    console.log('\n✅ Restore completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Restore process failed:', error);
+
+    if (process.env.GITHUB_ACTIONS) {
+      core.setFailed(error instanceof Error ? error.message : String(error));
+    }
+
+    process.exit(1);
+  }
+}
+
+// Only run restore if this file is executed directly
+if (require.main === module) {
+  restoreMain().catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export default restoreMain;
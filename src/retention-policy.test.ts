@@ -0,0 +1,112 @@
+import { describe, expect, it } from '@jest/globals';
+import { RetentionPolicy, selectBackupsToDelete } from './retention-policy';
+
+const NONE: RetentionPolicy = { daily: 0, weekly: 0, monthly: 0, yearly: 0 };
+
+/**
+ * A stored backup of shop/main/orders, or of another prefix, taken at 02:00 UTC on `date`
+ */
+function backup(date: string, prefix = 'shop_main_orders', suffix = '.sql.gz'): { name: string } {
+  return { name: `${prefix}_${date}_02-00-00${suffix}` };
+}
+
+function deletedNames(files: { name: string }[], policy: Parameters<typeof selectBackupsToDelete>[1], pending?: string[]): string[] {
+  return selectBackupsToDelete(files, policy, pending).map(file => file.name).sort();
+}
+
+describe('selectBackupsToDelete', () => {
+  it('keeps the newest backup of each of the most recent days', () => {
+    const files = [
+      backup('2024-05-15'),
+      { name: 'shop_main_orders_2024-05-15_01-00-00.sql.gz' },
+      backup('2024-05-14'),
+      backup('2024-05-13'),
+      backup('2024-05-12')
+    ];
+
+    expect(deletedNames(files, { ...NONE, daily: 2 })).toEqual([
+      'shop_main_orders_2024-05-12_02-00-00.sql.gz',
+      'shop_main_orders_2024-05-13_02-00-00.sql.gz',
+      'shop_main_orders_2024-05-15_01-00-00.sql.gz'
+    ]);
+  });
+
+  it('lets one backup count for several tiers instead of keeping an older one in its place', () => {
+    // 2024-05-13 to 15 fall in one week (starting Monday 13th), the 8th and the 1st in the two weeks before
+    const files = [backup('2024-05-15'), backup('2024-05-14'), backup('2024-05-13'), backup('2024-05-08'), backup('2024-05-01')];
+
+    // Daily keeps the 15th and 14th, weekly the 15th again and the 8th
+    expect(deletedNames(files, { ...NONE, daily: 2, weekly: 2 })).toEqual([
+      'shop_main_orders_2024-05-01_02-00-00.sql.gz',
+      'shop_main_orders_2024-05-13_02-00-00.sql.gz'
+    ]);
+  });
+
+  it('keeps monthly and yearly backups across period boundaries', () => {
+    const files = [backup('2024-02-10'), backup('2024-01-31'), backup('2024-01-05'), backup('2023-12-31'), backup('2022-06-01')];
+
+    expect(deletedNames(files, { ...NONE, monthly: 2, yearly: 3 })).toEqual(['shop_main_orders_2024-01-05_02-00-00.sql.gz']);
+  });
+
+  it('applies the policy to each prefix and mode separately', () => {
+    const files = [
+      backup('2024-05-15'),
+      backup('2024-05-14'),
+      backup('2024-05-13', 'shop_dev_orders'),
+      backup('2024-05-12', 'shop_dev_orders'),
+      backup('2024-05-11', 'shop_main_orders', '.schema.sql.gz'),
+      backup('2024-05-10', 'shop_main_orders', '.schema.sql.gz')
+    ];
+
+    expect(deletedNames(files, { ...NONE, daily: 1 })).toEqual([
+      'shop_dev_orders_2024-05-12_02-00-00.sql.gz',
+      'shop_main_orders_2024-05-10_02-00-00.schema.sql.gz',
+      'shop_main_orders_2024-05-14_02-00-00.sql.gz'
+    ]);
+  });
+
+  it('treats the files of one run as one backup', () => {
+    const files = [backup('2024-05-15', 'shop_main_orders', '.sql'), backup('2024-05-15', 'shop_main_orders', '.zip'), backup('2024-05-14')];
+
+    expect(deletedNames(files, { ...NONE, daily: 1 })).toEqual(['shop_main_orders_2024-05-14_02-00-00.sql.gz']);
+  });
+
+  it('picks the policy per group and leaves groups without one untouched', () => {
+    const files = [backup('2024-05-15'), backup('2024-05-14'), backup('2024-05-15', 'shop_dev_orders'), backup('2024-05-14', 'shop_dev_orders')];
+
+    const deleted = deletedNames(files, prefix => prefix === 'shop_main_orders' ? { ...NONE, daily: 1 } : undefined);
+
+    expect(deleted).toEqual(['shop_main_orders_2024-05-14_02-00-00.sql.gz']);
+  });
+
+  it('keeps the newest backup of a group when the policy keeps none', () => {
+    const files = [backup('2024-05-15'), backup('2024-05-14'), backup('2024-05-13')];
+
+    expect(deletedNames(files, NONE)).toEqual([
+      'shop_main_orders_2024-05-13_02-00-00.sql.gz',
+      'shop_main_orders_2024-05-14_02-00-00.sql.gz'
+    ]);
+  });
+
+  it('never selects files with foreign names', () => {
+    const files = [{ name: 'notes.txt' }, { name: 'neon-backup-catalog.json' }, backup('2024-05-15'), backup('2024-05-14')];
+
+    expect(deletedNames(files, NONE)).toEqual(['shop_main_orders_2024-05-14_02-00-00.sql.gz']);
+  });
+
+  it('lets pending backups take retention slots without selecting them', () => {
+    const files = [backup('2024-05-14'), backup('2024-05-13'), backup('2024-05-12')];
+    const pending = [backup('2024-05-15').name];
+
+    expect(deletedNames(files, { ...NONE, daily: 2 }, pending)).toEqual([
+      'shop_main_orders_2024-05-12_02-00-00.sql.gz',
+      'shop_main_orders_2024-05-13_02-00-00.sql.gz'
+    ]);
+  });
+
+  it('lets a pending backup be the one kept when the policy keeps none', () => {
+    const files = [backup('2024-05-14')];
+
+    expect(deletedNames(files, NONE, [backup('2024-05-15').name])).toEqual(['shop_main_orders_2024-05-14_02-00-00.sql.gz']);
+  });
+});
@@ -0,0 +1,165 @@
+import { BackupMode, parseBackupFileName } from './backup-service';
+
+/**
+ * Grandfather-father-son retention: how many daily, weekly, monthly and yearly backups to keep
+ */
+export interface RetentionPolicy {
+  daily: number;
+  weekly: number;
+  monthly: number;
+  yearly: number;
+}
+
+/**
+ * Retention policy for the backups of one "<project>_<branch>_<database>" prefix and mode; undefined leaves them untouched
+ */
+export type RetentionPolicyResolver = (prefix: string, mode: BackupMode) => RetentionPolicy | undefined;
+
+/**
+ * How a cleanup runs: a dry run only reports the files it would delete
+ */
+export interface CleanupOptions {
+  dryRun?: boolean;
+  pending?: string[]; // Names of backups the run is about to add, see selectBackupsToDelete
+}
+
+const TIER_SUFFIXES: Record<string, keyof RetentionPolicy> = {
+  d: 'daily',
+  w: 'weekly',
+  m: 'monthly',
+  y: 'yearly'
+};
+
+/**
+ * Parse a policy such as '7d,4w,12m,3y'; omitted tiers keep nothing
+ */
+export function parseRetentionPolicy(value: string): RetentionPolicy {
+  const policy: RetentionPolicy = { daily: 0, weekly: 0, monthly: 0, yearly: 0 };
+
+  for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = /^(\d+)\s*([dwmy])$/i.exec(part);
+    if (!match) {
+      throw new Error(`Invalid retention tier '${part}'. Use a comma-separated list such as '7d,4w,12m,3y'`);
+    }
+    policy[TIER_SUFFIXES[match[2].toLowerCase()]] = parseInt(match[1]);
+  }
+
+  return policy;
+}
+
+/**
+ * Human-readable description used in logs
+ */
+export function describeRetentionPolicy(policy: RetentionPolicy | RetentionPolicyResolver): string {
+  if (typeof policy === 'function') {
+    return 'per-project policies';
+  }
+  return `${policy.daily} daily, ${policy.weekly} weekly, ${policy.monthly} monthly, ${policy.yearly} yearly`;
+}
+
+/**
+ * Pick the files a retention policy would delete.
+ * Backups are grouped by project/branch/database and mode using the name encoded by generateBackupFileName,
+ * so schema-only and data-only tiers never count against full backups. Files with foreign names are never
+ * selected, and the newest backup of a group is always kept.
+ * A resolver picks the policy per group. `pending` names backups a run is about to add: they take their
+ * retention slots like stored files but are never selected themselves.
+ */
+export function selectBackupsToDelete<T extends { name: string }>(
+  files: T[],
+  policy: RetentionPolicy | RetentionPolicyResolver,
+  pending: string[] = []
+): T[] {
+  const resolvePolicy: RetentionPolicyResolver = typeof policy === 'function' ? policy : () => policy;
+  const stored = new Set<{ name: string }>(files);
+
+  // prefix and mode -> timestamp label -> files of that backup (e.g. .sql and .zip of the same run)
+  const groups = new Map<string, { prefix: string; mode: BackupMode; backups: Map<string, { timestamp: Date; files: { name: string }[] }> }>();
+
+  for (const file of [...files, ...pending.map(name => ({ name }))]) {
+    const parsed = parseBackupFileName(file.name);
+    if (!parsed) {
+      continue;
+    }
+
+    const key = `${parsed.prefix}/${parsed.mode}`;
+    const group = groups.get(key) || { prefix: parsed.prefix, mode: parsed.mode, backups: new Map() };
+    const backup = group.backups.get(parsed.timestampLabel) || { timestamp: parsed.timestamp, files: [] };
+    backup.files.push(file);
+    group.backups.set(parsed.timestampLabel, backup);
+    groups.set(key, group);
+  }
+
+  const toDelete: T[] = [];
+
+  for (const { prefix, mode, backups } of Array.from(groups.values())) {
+    const groupPolicy = resolvePolicy(prefix, mode);
+    if (!groupPolicy) {
+      continue;
+    }
+
+    const sorted = Array.from(backups.values()).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    const keep = new Set<number>();
+
+    keepNewestPerPeriod(sorted, groupPolicy.daily, dayKey, keep);
+    keepNewestPerPeriod(sorted, groupPolicy.weekly, weekKey, keep);
+    keepNewestPerPeriod(sorted, groupPolicy.monthly, monthKey, keep);
+    keepNewestPerPeriod(sorted, groupPolicy.yearly, yearKey, keep);
+
+    // Never delete the last remaining backup of a branch, however old it is
+    if (keep.size === 0 && sorted.length > 0) {
+      keep.add(sorted[0].timestamp.getTime());
+    }
+
+    for (const backup of sorted) {
+      if (!keep.has(backup.timestamp.getTime())) {
+        toDelete.push(...backup.files.filter((file): file is T => stored.has(file)));
+      }
+    }
+  }
+
+  return toDelete;
+}
+
+/**
+ * Keep the newest backup of each of the `count` most recent periods that have a backup
+ */
+function keepNewestPerPeriod(
+  sortedNewestFirst: { timestamp: Date }[],
+  count: number,
+  periodKey: (date: Date) => string,
+  keep: Set<number>
+): void {
+  const seenPeriods = new Set<string>();
+
+  for (const backup of sortedNewestFirst) {
+    if (seenPeriods.size >= count) {
+      break;
+    }
+
+    const key = periodKey(backup.timestamp);
+    if (!seenPeriods.has(key)) {
+      seenPeriods.add(key);
+      keep.add(backup.timestamp.getTime());
+    }
+  }
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function weekKey(date: Date): string {
+  // Weeks start on Monday; the Monday's date identifies the week
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return dayKey(monday);
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function yearKey(date: Date): string {
+  return date.toISOString().slice(0, 4);
+}
@@ -0,0 +1,234 @@
+/**
+ * How often and how patiently a failed operation is retried
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first attempt; 1 disables retries
+  initialDelayMs: number; // Delay before the first retry, doubled for every further retry
+  maxDelayMs: number; // Cap on a single delay, also for Retry-After headers
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 2000,
+  maxDelayMs: 60000
+};
+
+/**
+ * The integrations that are retried, counted separately in the summary
+ */
+export type RetryScope = 'neonApi' | 'pgDump' | 'upload';
+
+export const RETRY_SCOPE_LABELS: Record<RetryScope, string> = {
+  neonApi: 'Neon API calls',
+  pgDump: 'pg_dump runs',
+  upload: 'uploads'
+};
+
+export interface RetryCounts {
+  operations: number;
+  attempts: number; // Attempts over all operations, first attempts included
+  retried: number; // Operations that needed more than one attempt
+  failed: number; // Operations that failed for good
+}
+
+/**
+ * An error that states whether trying again could help, for failures that are results rather than exceptions
+ */
+export class RetryableError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'RetryableError';
+    this.retryable = retryable;
+  }
+}
+
+const RETRYABLE_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+
+// Network failures that usually go away on their own
+const RETRYABLE_ERROR_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH',
+  'ENETDOWN', 'ERR_STREAM_PREMATURE_CLOSE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT'
+];
+
+// pg_dump failures that retrying cannot fix, checked before the transient ones since messages can match both
+const FATAL_POSTGRES_ERRORS = /password authentication failed|permission denied|does not exist|no pg_hba\.conf entry|server version mismatch|no matching (tables|schemas) were found|invalid connection option|not found\. Please install/i;
+
+const TRANSIENT_POSTGRES_ERRORS = new RegExp([
+  'could not connect to server',
+  'connection to server .* failed',
+  'connection refused',
+  'connection timed out',
+  'timeout expired',
+  'server closed the connection unexpectedly',
+  'connection reset',
+  'SSL SYSCALL error',
+  'SSL connection has been closed unexpectedly',
+  'could not (receive|send) data (from|to) server',
+  'terminating connection',
+  'the database system is (starting up|shutting down|in recovery mode)',
+  'too many connections',
+  'remaining connection slots are reserved',
+  "couldn't connect to compute node",
+  'temporary failure in name resolution'
+].join('|'), 'i');
+
+/**
+ * Classify an error from an HTTP client (axios, gaxios, AWS SDK, fetch) or the network:
+ * rate limits, timeouts, 5xx answers and dropped connections are worth another attempt, anything else is fatal
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!isObject(error)) {
+    return false;
+  }
+  if (typeof error.retryable === 'boolean') {
+    return error.retryable;
+  }
+  if (isObject(error.$retryable)) {
+    return true; // AWS SDK marks throttling and transient errors itself
+  }
+
+  const status = getHttpStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUS_CODES.includes(status) || status >= 500;
+  }
+
+  const code = typeof error.code === 'string' ? error.code : undefined;
+  if (code && RETRYABLE_ERROR_CODES.includes(code)) {
+    return true;
+  }
+  if (error.name === 'TimeoutError') {
+    return true;
+  }
+
+  return isObject(error.cause) ? isRetryableError(error.cause) : false;
+}
+
+/**
+ * Whether a request was turned away by a rate limit before it was processed
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return isObject(error) && getHttpStatus(error) === 429;
+}
+
+/**
+ * Classify a pg_dump failure by its error output: dropped connections and computes that are waking up are transient,
+ * authentication, permissions and missing objects are not
+ */
+export function isRetryablePostgresError(message: string): boolean {
+  return !FATAL_POSTGRES_ERRORS.test(message) && TRANSIENT_POSTGRES_ERRORS.test(message);
+}
+
+/**
+ * Delay before retry number `retry` (1 for the first retry): exponential backoff with jitter over the upper half,
+ * so parallel workers that failed together don't retry together. A server's Retry-After is honoured up to the cap.
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number, retryAfterMs?: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(2, retry - 1));
+  const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+  return Math.round(Math.max(delay, Math.min(retryAfterMs ?? 0, policy.maxDelayMs)));
+}
+
+/**
+ * Runs operations under a retry policy and counts their attempts per integration
+ */
+export class Retrier {
+  readonly policy: RetryPolicy;
+  private counts = new Map<RetryScope, RetryCounts>();
+
+  constructor(policy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+    this.policy = policy;
+  }
+
+  /**
+   * Run `task` until it succeeds, fails with an error `isRetryable` rejects, or runs out of attempts.
+   * The task receives the attempt number, starting at 1; the last error is rethrown.
+   */
+  async run<T>(
+    scope: RetryScope,
+    description: string,
+    task: (attempt: number) => Promise<T>,
+    isRetryable: (error: unknown) => boolean = isRetryableError
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await task(attempt);
+        this.record(scope, attempt, true);
+        return result;
+      } catch (error) {
+        if (attempt >= this.policy.maxAttempts || !isRetryable(error)) {
+          this.record(scope, attempt, false);
+          throw error;
+        }
+
+        const delay = getRetryDelay(this.policy, attempt, getRetryAfterMs(error));
+        const reason = error instanceof Error ? error.message : String(error);
+        console.log(`🔁 ${description} failed (attempt ${attempt}/${this.policy.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${reason.split('\n')[0]}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Attempts per integration so far; integrations that were never used are left out
+   */
+  getCounts(): Partial<Record<RetryScope, RetryCounts>> {
+    return Object.fromEntries(Array.from(this.counts.entries()).map(([scope, counts]) => [scope, { ...counts }]));
+  }
+
+  private record(scope: RetryScope, attempts: number, success: boolean): void {
+    const counts = this.counts.get(scope) || { operations: 0, attempts: 0, retried: 0, failed: 0 };
+    counts.operations++;
+    counts.attempts += attempts;
+    if (attempts > 1) counts.retried++;
+    if (!success) counts.failed++;
+    this.counts.set(scope, counts);
+  }
+}
+
+/**
+ * HTTP status of a client error: axios and gaxios keep it on the response, the AWS SDK in $metadata
+ */
+function getHttpStatus(error: Record<string, unknown>): number | undefined {
+  const candidates = [
+    isObject(error.response) ? error.response.status : undefined,
+    isObject(error.$metadata) ? error.$metadata.httpStatusCode : undefined,
+    error.status,
+    error.code
+  ];
+  return candidates.find((value): value is number => typeof value === 'number' && value >= 100 && value < 600);
+}
+
+/**
+ * Retry-After header of a rate-limited response, in milliseconds
+ */
+function getRetryAfterMs(error: unknown): number | undefined {
+  if (!isObject(error) || !isObject(error.response) || !isObject(error.response.headers)) {
+    return undefined;
+  }
+
+  const headers = error.response.headers;
+  const value = hasHeaderGetter(headers) ? headers.get('retry-after') : headers['retry-after'];
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Fetch and gaxios responses carry a Headers object instead of a plain record
+ */
+function hasHeaderGetter(headers: Record<string, unknown>): headers is Record<string, unknown> & { get(name: string): unknown } {
+  return typeof headers.get === 'function';
+}
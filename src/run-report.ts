@@ -0,0 +1,263 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { BackupMode, BackupResult, DumpFormat } from './backup-service';
+import { CompressionCodec } from './compression';
+import { BackupReason, DatabaseActivity, SkipKind, SkippedResource } from './neon-discovery';
+import { StoredBackupFile, UploadResult } from './storage-provider';
+import { RetryCounts, RetryScope } from './retry';
+
+/**
+ * Bumped whenever a field is renamed or removed; new optional fields keep the version
+ */
+export const RUN_REPORT_SCHEMA_VERSION = 1;
+
+export const RUN_REPORT_PREFIX = 'neon-backup-report';
+
+export type RunStatus = 'success' | 'partial' | 'failed';
+
+export interface RunReportResource {
+  projectId: string;
+  projectName: string;
+  branchId: string;
+  branchName: string;
+  databaseName: string;
+  lastActivity?: string; // ISO 8601
+  reason?: BackupReason;
+}
+
+export interface RunReportSkip {
+  projectId: string;
+  projectName: string;
+  branchId?: string;
+  branchName?: string;
+  databaseName?: string;
+  kind: SkipKind;
+  reason: string;
+}
+
+export interface RunReportBackup {
+  projectName?: string;
+  branchName?: string;
+  databaseName?: string;
+  success: boolean;
+  fileName?: string;
+  dumpFormat?: DumpFormat;
+  mode?: BackupMode;
+  compression?: CompressionCodec;
+  sizeBytes?: number;
+  checksumSha256?: string;
+  checksumMd5?: string;
+  durationMs?: number;
+  attempts?: number; // pg_dump runs, retries included
+  encrypted: boolean;
+  verified?: boolean; // Absent when verification did not run
+  verificationMismatches?: string[];
+  error?: string;
+  upload?: RunReportUpload;
+}
+
+export interface RunReportUpload {
+  success: boolean;
+  fileName?: string;
+  fileId?: string;
+  webViewLink?: string;
+  durationMs?: number;
+  attempts?: number; // Uploads, retries included
+  error?: string;
+}
+
+export interface RunReportDeletion {
+  fileId: string;
+  fileName: string;
+  createdTime?: string; // ISO 8601
+}
+
+export interface RunReportTimings {
+  discoveryMs?: number;
+  backupMs?: number; // Wall time of dumping, verifying, encrypting and uploading, which overlap
+  uploadMs?: number; // Sum of the individual upload durations
+  cleanupMs?: number;
+  totalMs: number;
+}
+
+/**
+ * Machine-readable record of one backup run, stored next to the backups as
+ * "neon-backup-report_<YYYY-MM-DD_HH-MM-SS>.json"
+ */
+export interface RunReport {
+  schemaVersion: number;
+  status: RunStatus;
+  startedAt: string; // ISO 8601
+  finishedAt: string; // ISO 8601
+  storage: string; // Storage backend name
+  activityWindow: string;
+  discovered: RunReportResource[];
+  skipped: RunReportSkip[];
+  backups: RunReportBackup[];
+  deletedFiles: RunReportDeletion[];
+  catalogHead?: string; // Hash of the newest catalog entry, to detect later rewrites of the catalog
+  totals: {
+    discovered: number;
+    skipped: number;
+    successfulBackups: number;
+    failedBackups: number;
+    successfulUploads: number;
+    failedUploads: number;
+    backupSizeBytes: number;
+    deletedFiles: number;
+  };
+  timings: RunReportTimings;
+  retries: Partial<Record<RetryScope, RetryCounts>>; // Attempts per integration: Neon API, pg_dump and uploads
+  error?: string; // Why the run stopped, when it did not complete
+}
+
+export interface RunReportInput {
+  startedAt: Date;
+  finishedAt: Date;
+  storage: string;
+  activityWindow: string;
+  discovered: DatabaseActivity[];
+  skipped: SkippedResource[];
+  backupResults: BackupResult[];
+  uploadResults: UploadResult[];
+  deletedFiles: StoredBackupFile[];
+  catalogHead?: string;
+  timings: Omit<RunReportTimings, 'totalMs'>;
+  retries: Partial<Record<RetryScope, RetryCounts>>;
+  error?: string;
+}
+
+/**
+ * Assemble the run report from the results of every stage
+ */
+export function createRunReport(input: RunReportInput): RunReport {
+  const uploadsByName = new Map<string, UploadResult>();
+  for (const upload of input.uploadResults) {
+    if (upload.fileName) {
+      uploadsByName.set(upload.fileName, upload);
+    }
+  }
+
+  const backups = input.backupResults.map(result => {
+    const upload = result.fileName ? uploadsByName.get(result.fileName) : undefined;
+    const backup: RunReportBackup = {
+      projectName: result.projectName,
+      branchName: result.branchName,
+      databaseName: result.databaseName,
+      success: result.success,
+      fileName: result.fileName,
+      dumpFormat: result.format,
+      mode: result.mode,
+      compression: result.compression,
+      sizeBytes: result.fileSize,
+      checksumSha256: result.checksum,
+      checksumMd5: result.md5Checksum,
+      durationMs: result.duration,
+      attempts: result.attempts,
+      encrypted: !!result.encrypted,
+      verified: result.verification?.verified,
+      verificationMismatches: result.verification?.mismatches.length ? result.verification.mismatches : undefined,
+      error: result.error || result.verification?.error,
+      upload: upload && {
+        success: upload.success,
+        fileName: upload.fileName,
+        fileId: upload.fileId,
+        webViewLink: upload.webViewLink,
+        durationMs: upload.duration,
+        attempts: upload.attempts,
+        error: upload.error
+      }
+    };
+    return backup;
+  });
+
+  const successfulBackups = input.backupResults.filter(r => r.success).length;
+  const failedBackups = input.backupResults.length - successfulBackups;
+  const successfulUploads = input.uploadResults.filter(r => r.success).length;
+  const failedUploads = input.uploadResults.length - successfulUploads;
+
+  let status: RunStatus = 'success';
+  if (input.error) {
+    status = 'failed';
+  } else if (failedBackups > 0 || failedUploads > 0) {
+    status = 'partial';
+  }
+
+  return {
+    schemaVersion: RUN_REPORT_SCHEMA_VERSION,
+    status,
+    startedAt: input.startedAt.toISOString(),
+    finishedAt: input.finishedAt.toISOString(),
+    storage: input.storage,
+    activityWindow: input.activityWindow,
+    discovered: input.discovered.map(toReportResource),
+    skipped: input.skipped.map(toReportSkip),
+    backups,
+    deletedFiles: input.deletedFiles.map(file => ({
+      fileId: file.id,
+      fileName: file.name,
+      createdTime: file.createdTime
+    })),
+    catalogHead: input.catalogHead,
+    totals: {
+      discovered: input.discovered.length,
+      skipped: input.skipped.length,
+      successfulBackups,
+      failedBackups,
+      successfulUploads,
+      failedUploads,
+      backupSizeBytes: input.backupResults.reduce((total, r) => total + (r.success ? r.fileSize || 0 : 0), 0),
+      deletedFiles: input.deletedFiles.length
+    },
+    timings: {
+      ...input.timings,
+      totalMs: input.finishedAt.getTime() - input.startedAt.getTime()
+    },
+    retries: input.retries,
+    error: input.error
+  };
+}
+
+export function toReportResource(resource: DatabaseActivity): RunReportResource {
+  return {
+    projectId: resource.project_id,
+    projectName: resource.project_name,
+    branchId: resource.branch_id,
+    branchName: resource.branch_name,
+    databaseName: resource.database_name,
+    lastActivity: resource.last_activity_date,
+    reason: resource.backup_reason
+  };
+}
+
+export function toReportSkip(skip: SkippedResource): RunReportSkip {
+  return {
+    projectId: skip.project_id,
+    projectName: skip.project_name,
+    branchId: skip.branch_id,
+    branchName: skip.branch_name,
+    databaseName: skip.database_name,
+    kind: skip.kind,
+    reason: skip.reason
+  };
+}
+
+/**
+ * "project/branch/database" of a backup, used in summaries and notifications
+ */
+export function describeReportSource(backup: RunReportBackup): string {
+  return `${backup.projectName}/${backup.branchName}/${backup.databaseName}`;
+}
+
+/**
+ * Write the report as pretty-printed JSON and return its path
+ */
+export async function writeRunReport(report: RunReport, outputDir: string): Promise<string> {
+  const timestamp = report.startedAt.slice(0, 19).replace('T', '_').replace(/:/g, '-');
+  const filePath = join(outputDir, `${RUN_REPORT_PREFIX}_${timestamp}.json`);
+
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(report, null, 2) + '\n');
+
+  return filePath;
+}
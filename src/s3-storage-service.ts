@@ -0,0 +1,299 @@
+import {
+  S3Client,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  HeadBucketCommand,
+  _Object
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { promises as fs, createReadStream, createWriteStream } from 'fs';
+import { basename } from 'path';
+import { Readable } from 'stream';
+import { BaseStorageProvider, StoredBackupFile, UploadResult } from './storage-provider';
+import { computeFileHashes, parseBackupFileName } from './backup-service';
+import { getCompressionCodec } from './compression';
+import { Retrier, isRetryableError } from './retry';
+
+// Multipart part size: S3 allows 10,000 parts, so objects up to ~160 GB; each part is retried on its own
+const PART_SIZE = 16 * 1024 * 1024;
+
+// Parts uploaded in parallel; each one is buffered in memory
+const PART_QUEUE_SIZE = 4;
+
+export interface S3StorageConfig {
+  bucket: string;
+  region?: string; // Default: 'us-east-1'
+  endpoint?: string; // Custom endpoint for S3-compatible stores such as MinIO
+  accessKeyId?: string; // Falls back to the default AWS credential chain
+  secretAccessKey?: string;
+  prefix?: string; // Key prefix (default: 'neonbackups/')
+  forcePathStyle?: boolean; // Required by most S3-compatible stores (default: true when an endpoint is set)
+}
+
+/**
+ * Storage backend for AWS S3 and S3-compatible object stores (MinIO, NAS appliances, ...)
+ */
+export class S3StorageService extends BaseStorageProvider {
+  readonly name = 'S3';
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+
+  constructor(config: S3StorageConfig, retrier?: Retrier) {
+    super(retrier);
+
+    this.client = new S3Client({
+      region: config.region || 'us-east-1',
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle ?? !!config.endpoint,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined
+    });
+    this.bucket = config.bucket;
+
+    const prefix = config.prefix ?? 'neonbackups/';
+    this.prefix = prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
+  }
+
+  /**
+   * Verify that the bucket is reachable
+   */
+  async initialize(): Promise<void> {
+    try {
+      console.log('🔗 Initializing S3 storage...');
+      await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+      console.log(`✅ S3 storage initialized: s3://${this.bucket}/${this.prefix}`);
+    } catch (error) {
+      console.error(`❌ Error initializing S3 storage for bucket '${this.bucket}':`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Test S3 connection
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      console.log('🔍 Testing S3 connection...');
+      await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+      console.log('✅ S3 connection successful');
+      return true;
+    } catch (error) {
+      console.error('❌ S3 connection failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Upload a backup file to the bucket; files larger than one part go up as a multipart upload
+   */
+  async uploadBackup(filePath: string, fileName?: string, description?: string, folder?: string, checksum?: string): Promise<UploadResult> {
+    const startTime = Date.now();
+    const actualFileName = fileName || basename(filePath);
+    const key = this.getObjectKey(actualFileName, folder);
+
+    console.log(`📤 Uploading backup file: ${actualFileName}...`);
+
+    try {
+      const stats = await fs.stat(filePath);
+      console.log(`📊 File size: ${this.formatFileSize(stats.size)}`);
+
+      const sha256 = checksum || (await computeFileHashes(filePath)).sha256;
+      const etag = await this.putObject(key, createReadStream(filePath), actualFileName, description, sha256);
+
+      const duration = Date.now() - startTime;
+      console.log(`✅ Upload completed: s3://${this.bucket}/${key} in ${duration}ms`);
+
+      return {
+        success: true,
+        fileId: key,
+        fileName: actualFileName,
+        webViewLink: `s3://${this.bucket}/${key}`,
+        checksum: sha256,
+        md5Checksum: this.parseMd5ETag(etag),
+        duration
+      };
+    } catch (error) {
+      console.error(`❌ Upload failed for ${actualFileName}:`, error);
+
+      return {
+        success: false,
+        fileName: actualFileName,
+        error: error instanceof Error ? error.message : String(error),
+        retryable: isRetryableError(error),
+        duration: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * Upload a stream of unknown length to the bucket as a multipart upload
+   */
+  async uploadStream(stream: Readable, fileName: string, description?: string, folder?: string): Promise<UploadResult> {
+    const startTime = Date.now();
+    const key = this.getObjectKey(fileName, folder);
+
+    console.log(`📤 Streaming backup file: ${fileName}...`);
+
+    try {
+      // Metadata is sent before the data, so a streamed object has no sha256; the run report and catalog record it
+      const etag = await this.putObject(key, stream, fileName, description);
+
+      const duration = Date.now() - startTime;
+      console.log(`✅ Streaming upload completed: s3://${this.bucket}/${key} in ${duration}ms`);
+
+      return {
+        success: true,
+        fileId: key,
+        fileName,
+        webViewLink: `s3://${this.bucket}/${key}`,
+        md5Checksum: this.parseMd5ETag(etag),
+        duration
+      };
+    } catch (error) {
+      console.error(`❌ Streaming upload failed for ${fileName}:`, error);
+
+      return {
+        success: false,
+        fileName,
+        error: error instanceof Error ? error.message : String(error),
+        duration: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * Object key of a backup file in a sub-folder below the prefix
+   */
+  private getObjectKey(fileName: string, folder?: string): string {
+    const folderPath = (folder || '').split('/').filter(Boolean).join('/');
+    return `${this.prefix}${folderPath ? `${folderPath}/` : ''}${fileName}`;
+  }
+
+  /**
+   * Store a body under a key and resolve to its ETag. Bodies smaller than one part are sent as a single PUT;
+   * a failed multipart upload is aborted so no orphaned parts are billed.
+   */
+  private async putObject(key: string, body: Readable, fileName: string, description?: string, sha256?: string): Promise<string | undefined> {
+    const upload = new Upload({
+      client: this.client,
+      partSize: PART_SIZE,
+      queueSize: PART_QUEUE_SIZE,
+      leavePartsOnError: false,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: 'application/octet-stream',
+        // Object metadata must be ASCII
+        Metadata: {
+          ...(sha256 ? { sha256 } : {}),
+          compression: getCompressionCodec(fileName),
+          'backup-mode': parseBackupFileName(fileName)?.mode || 'full',
+          ...(description ? { description: description.replace(/[^\x20-\x7e]/g, '?') } : {})
+        }
+      }
+    });
+
+    const response = await upload.done();
+    return response.ETag;
+  }
+
+  /**
+   * The ETag of a single-part upload without KMS encryption is the MD5 of the object; multipart ETags contain a '-'
+   */
+  private parseMd5ETag(etag?: string): string | undefined {
+    const value = etag?.replace(/"/g, '').toLowerCase();
+    return value && /^[0-9a-f]{32}$/.test(value) ? value : undefined;
+  }
+
+  /**
+   * List backup objects under the prefix, newest first
+   */
+  async listBackupFiles(maxResults?: number): Promise<StoredBackupFile[]> {
+    try {
+      console.log('📋 Listing backup files in S3...');
+
+      const objects: _Object[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await this.client.send(new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.prefix,
+          ContinuationToken: continuationToken
+        }));
+
+        objects.push(...(response.Contents || []));
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      const files = objects
+        .filter(object => object.Key && !object.Key.endsWith('/'))
+        .map(object => {
+          const relativeKey = object.Key!.slice(this.prefix.length);
+          const separator = relativeKey.lastIndexOf('/');
+          return {
+            id: object.Key!,
+            name: relativeKey.slice(separator + 1),
+            folder: separator > 0 ? relativeKey.slice(0, separator) : undefined,
+            size: object.Size,
+            createdTime: object.LastModified?.toISOString(),
+            md5Checksum: this.parseMd5ETag(object.ETag),
+            webViewLink: `s3://${this.bucket}/${object.Key}`
+          };
+        })
+        .sort((a, b) => (b.createdTime || '').localeCompare(a.createdTime || ''));
+
+      console.log(`📁 Found ${files.length} backup files in S3`);
+      return files.slice(0, maxResults);
+    } catch (error) {
+      console.error('❌ Error listing backup files:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download a backup object to a local path
+   */
+  async downloadBackup(fileId: string, destinationPath: string): Promise<void> {
+    try {
+      console.log(`📥 Downloading s3://${this.bucket}/${fileId} to ${destinationPath}...`);
+
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: fileId }));
+      if (!response.Body) {
+        throw new Error(`Object ${fileId} has no body`);
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        (response.Body as Readable)
+          .on('error', reject)
+          .pipe(createWriteStream(destinationPath))
+          .on('error', reject)
+          .on('finish', () => resolve());
+      });
+
+      const stats = await fs.stat(destinationPath);
+      console.log(`✅ Download completed: ${basename(destinationPath)} (${this.formatFileSize(stats.size)})`);
+    } catch (error) {
+      console.error(`❌ Error downloading backup file ${fileId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a backup object
+   */
+  async deleteBackup(fileId: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: fileId }));
+  }
+
+  /**
+   * Location shown in upload summaries
+   */
+  protected describeLocation(): string {
+    return `s3://${this.bucket}/${this.prefix}`;
+  }
+}
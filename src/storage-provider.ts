@@ -0,0 +1,237 @@
+import { Readable } from 'stream';
+import { BackupResult, describeBackup } from './backup-service';
+import { CleanupOptions, RetentionPolicy, RetentionPolicyResolver, describeRetentionPolicy, selectBackupsToDelete } from './retention-policy';
+import { mapWithConcurrency } from './concurrency';
+import { Retrier, RetryableError } from './retry';
+
+export interface UploadResult {
+  success: boolean;
+  fileId?: string;
+  fileName?: string;
+  webViewLink?: string;
+  checksum?: string; // SHA-256 recorded with the stored file, hex encoded
+  md5Checksum?: string; // MD5 reported by the backend, when it computes one
+  error?: string;
+  retryable?: boolean; // The failure looks transient (rate limit, 5xx, dropped connection)
+  attempts?: number; // Uploads it took, retries included
+  duration?: number;
+}
+
+export interface StoredBackupFile {
+  id: string; // Backend-specific identifier (Drive file ID, object key, file name)
+  name: string;
+  folder?: string; // Sub-folder below the backup location, e.g. "shop/main"
+  size?: number;
+  createdTime?: string; // ISO 8601
+  webViewLink?: string;
+  checksum?: string; // SHA-256 recorded at upload (Drive appProperties), hex encoded
+  md5Checksum?: string; // MD5 computed by the backend (Drive md5Checksum, S3 ETag of single-part uploads)
+}
+
+/**
+ * Contract shared by every backup storage backend
+ */
+export interface StorageProvider {
+  readonly name: string;
+  initialize(): Promise<void>;
+  testConnection(): Promise<boolean>;
+  uploadBackup(filePath: string, fileName?: string, description?: string, folder?: string, checksum?: string): Promise<UploadResult>;
+  uploadBackupResult(backup: BackupResult): Promise<UploadResult>;
+  uploadMultipleBackups(backupResults: BackupResult[], concurrency?: number): Promise<UploadResult[]>;
+  uploadStream?(stream: Readable, fileName: string, description?: string, folder?: string): Promise<UploadResult>; // Backends that can store data of unknown length
+  listBackupFiles(maxResults?: number): Promise<StoredBackupFile[]>;
+  downloadBackup(fileId: string, destinationPath: string): Promise<void>;
+  deleteBackup(fileId: string): Promise<void>;
+  cleanupOldBackups(retentionDays?: number, isExempt?: (fileName: string) => boolean, options?: CleanupOptions): Promise<StoredBackupFile[]>; // Resolves to the deleted files
+  applyRetentionPolicy(policy: RetentionPolicy | RetentionPolicyResolver, options?: CleanupOptions): Promise<StoredBackupFile[]>;
+}
+
+/**
+ * Upload and cleanup logic shared by all storage backends
+ */
+export abstract class BaseStorageProvider implements StorageProvider {
+  abstract readonly name: string;
+  protected retrier: Retrier;
+
+  constructor(retrier: Retrier = new Retrier()) {
+    this.retrier = retrier;
+  }
+
+  abstract initialize(): Promise<void>;
+  abstract testConnection(): Promise<boolean>;
+  abstract uploadBackup(filePath: string, fileName?: string, description?: string, folder?: string, checksum?: string): Promise<UploadResult>;
+  abstract listBackupFiles(maxResults?: number): Promise<StoredBackupFile[]>;
+  abstract downloadBackup(fileId: string, destinationPath: string): Promise<void>;
+  abstract deleteBackup(fileId: string): Promise<void>;
+
+  /**
+   * Location shown in upload summaries
+   */
+  protected abstract describeLocation(): string;
+
+  /**
+   * Upload multiple backup files, `concurrency` at a time; results keep the order of the backups
+   */
+  async uploadMultipleBackups(backupResults: BackupResult[], concurrency: number = 1): Promise<UploadResult[]> {
+    console.log(`🚀 Starting upload process for backup files...`);
+
+    const successfulBackups = backupResults.filter(result => result.success && result.filePath);
+
+    console.log(`📤 Uploading ${successfulBackups.length} backup files to ${this.name} (${concurrency} at a time)...`);
+
+    const uploadResults = await mapWithConcurrency(successfulBackups, concurrency, async backup => {
+      const result = await this.uploadBackupResult(backup);
+
+      // Add a small delay between uploads to avoid rate limiting
+      await this.sleep(500);
+      return result;
+    });
+
+    const successCount = uploadResults.filter(r => r.success).length;
+    const failureCount = uploadResults.length - successCount;
+
+    console.log(`\n📊 Upload Summary:`);
+    console.log(`   ✅ Successful uploads: ${successCount}`);
+    console.log(`   ❌ Failed uploads: ${failureCount}`);
+    console.log(`   📁 ${this.name}: ${this.describeLocation()}`);
+
+    return uploadResults;
+  }
+
+  /**
+   * Upload the file of a successful backup, retrying transient failures and reporting unexpected errors as a failed upload
+   */
+  async uploadBackupResult(backup: BackupResult): Promise<UploadResult> {
+    let attempts = 0;
+    let failedUpload: UploadResult | undefined;
+
+    try {
+      const upload = await this.retrier.run('upload', `Upload of ${backup.fileName}`, async attempt => {
+        attempts = attempt;
+        failedUpload = undefined;
+        const result = await this.uploadBackup(backup.filePath!, backup.fileName, describeBackup(backup), backup.folder, backup.checksum);
+        if (!result.success) {
+          failedUpload = result;
+          throw new RetryableError(result.error || 'Upload failed', !!result.retryable);
+        }
+        return result;
+      });
+      return { ...upload, attempts };
+    } catch (error) {
+      if (failedUpload) {
+        return { ...failedUpload, attempts };
+      }
+      console.error(`❌ Unexpected error uploading ${backup.fileName}:`, error);
+      return {
+        success: false,
+        fileName: backup.fileName,
+        error: error instanceof Error ? error.message : String(error),
+        attempts
+      };
+    }
+  }
+
+  /**
+   * Delete backup files older than the retention period and return the deleted files.
+   * Files for which `isExempt` returns true are left to their own retention policy; a dry run returns the files it would delete.
+   */
+  async cleanupOldBackups(retentionDays: number = 30, isExempt?: (fileName: string) => boolean, options: CleanupOptions = {}): Promise<StoredBackupFile[]> {
+    const deletedFiles: StoredBackupFile[] = [];
+
+    try {
+      console.log(`🧹 ${options.dryRun ? 'Checking' : 'Cleaning up'} ${this.name} backups older than ${retentionDays} days...`);
+
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+      const files = await this.listBackupFiles();
+      const oldFiles = files.filter(file =>
+        file.createdTime && new Date(file.createdTime) < cutoffDate && !isExempt?.(file.name)
+      );
+
+      if (options.dryRun) {
+        return this.reportDryRun(oldFiles);
+      }
+
+      for (const file of oldFiles) {
+        try {
+          await this.deleteBackup(file.id);
+          console.log(`🗑️  Deleted old backup: ${file.name} (${file.createdTime})`);
+          deletedFiles.push(file);
+          
+          // Add small delay to avoid rate limiting
+          await this.sleep(100);
+        } catch (error) {
+          console.error(`❌ Error deleting file ${file.name}:`, error);
+        }
+      }
+
+      console.log(`✅ Cleanup completed. Deleted ${deletedFiles.length} old backup files from ${this.name}.`);
+    } catch (error) {
+      console.error(`❌ Error during ${this.name} cleanup:`, error);
+    }
+
+    return deletedFiles;
+  }
+
+  /**
+   * Delete backup files according to a grandfather-father-son retention policy and return the deleted files
+   */
+  async applyRetentionPolicy(policy: RetentionPolicy | RetentionPolicyResolver, options: CleanupOptions = {}): Promise<StoredBackupFile[]> {
+    const deletedFiles: StoredBackupFile[] = [];
+
+    try {
+      console.log(`🧹 ${options.dryRun ? 'Checking' : 'Applying'} retention policy (${describeRetentionPolicy(policy)}) to ${this.name} backups...`);
+
+      const files = await this.listBackupFiles();
+      const toDelete = selectBackupsToDelete(files, policy, options.pending);
+      if (options.dryRun) {
+        return this.reportDryRun(toDelete);
+      }
+
+      for (const file of toDelete) {
+        try {
+          await this.deleteBackup(file.id);
+          console.log(`🗑️  Deleted old backup: ${file.name}`);
+          deletedFiles.push(file);
+
+          // Add small delay to avoid rate limiting
+          await this.sleep(100);
+        } catch (error) {
+          console.error(`❌ Error deleting file ${file.name}:`, error);
+        }
+      }
+
+      console.log(`✅ Cleanup completed. Deleted ${deletedFiles.length} old backup files from ${this.name}.`);
+    } catch (error) {
+      console.error(`❌ Error during ${this.name} cleanup:`, error);
+    }
+
+    return deletedFiles;
+  }
+
+  private reportDryRun(files: StoredBackupFile[]): StoredBackupFile[] {
+    for (const file of files) {
+      console.log(`🔎 Would delete: ${file.name}${file.createdTime ? ` (${file.createdTime})` : ''}`);
+    }
+    console.log(`✅ Dry run: ${files.length} backup files in ${this.name} would be deleted.`);
+    return files;
+  }
+
+  /**
+   * Utility function to format file size
+   */
+  protected formatFileSize(bytes: number): string {
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    if (bytes === 0) return '0 Bytes';
+    const i = Math.floor(Math.log(bytes) / Math.log(1024));
+    return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+  }
+
+  /**
+   * Utility function for delays
+   */
+  protected sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
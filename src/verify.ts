@@ -0,0 +1,79 @@
+import * as core from '@actions/core';
+import { BackupCatalogService, CatalogIssueKind, CatalogVerification } from './backup-catalog';
+import { createStorageProvider, getConfigFile, getInput, getStorageConfiguration } from './index';
+
+const ISSUE_ICONS: Record<CatalogIssueKind, string> = {
+  missing: '🕳️ ',
+  corrupted: '💥',
+  unexpected: '❓',
+  tampered: '🚨'
+};
+
+/**
+ * Check every file in the backup catalog named by the inputs against storage
+ */
+export async function verifyCatalog(): Promise<CatalogVerification> {
+  const configFile = await getConfigFile();
+  const storageProvider = createStorageProvider(getStorageConfiguration(configFile));
+  const catalog = new BackupCatalogService(
+    storageProvider,
+    getInput('OUTPUT_DIR', false) || configFile.outputDir || './backups'
+  );
+
+  await storageProvider.initialize();
+  return catalog.verify({
+    download: getInput('VERIFY_DOWNLOAD', false) === 'true',
+    expectedHead: getInput('VERIFY_CATALOG_HEAD', false) || undefined
+  });
+}
+
+/**
+ * Display a verification result
+ */
+export function printVerification(result: CatalogVerification): void {
+  console.log('\n📊 VERIFICATION SUMMARY');
+  console.log('======================');
+  console.log(`📒 Catalog head: ${result.headHash || '(empty)'}`);
+  console.log(`✅ Verified files: ${result.verifiedFiles}/${result.checkedFiles}`);
+
+  for (const issue of result.issues) {
+    console.log(`${ISSUE_ICONS[issue.kind]} ${issue.kind}: ${issue.fileName}${issue.fileId ? ` (${issue.fileId})` : ''} - ${issue.detail}`);
+  }
+}
+
+/**
+ * Verify entry point: checks every file in the backup catalog against storage
+ */
+async function verifyMain(): Promise<void> {
+  try {
+    console.log('🔎 Starting Neon Backup Catalog Verification');
+    console.log('================================================');
+
+    const result = await verifyCatalog();
+    printVerification(result);
+
+    if (result.issues.length > 0) {
+      throw new Error(`Backup catalog verification found ${result.issues.length} issue(s)`);
+    }
+    console.log('\n✅ All cataloged backups are present and intact!');
+
+  } catch (error) {
+    console.error('❌ Verification failed:', error);
+
+    if (process.env.GITHUB_ACTIONS) {
+      core.setFailed(error instanceof Error ? error.message : String(error));
+    }
+
+    process.exit(1);
+  }
+}
+
+// Only run verification if this file is executed directly
+if (require.main === module) {
+  verifyMain().catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export default verifyMain;